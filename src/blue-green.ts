@@ -0,0 +1,140 @@
+// src/blue-green.ts
+import path from 'path';
+import { AppRole, Colour, DeployConfig, NeexProject, ReleaseConfig } from './types.js';
+import { relocateProject } from './releases.js';
+import { Logger } from './utils/logger.js';
+import { SystemUtils } from './utils/system.js';
+import { shellQuote } from './utils/transport.js';
+
+export const COLOURS: Colour[] = ['blue', 'green'];
+export const DEFAULT_KEEP_WARM = 600;
+// Green's ports sit this far above the configured ones unless blueGreen.ports says otherwise
+export const GREEN_PORT_OFFSET = 1000;
+
+export function getOtherColour(colour: Colour): Colour {
+    return colour === 'blue' ? 'green' : 'blue';
+}
+
+export function getColourPorts(config: DeployConfig, colour: Colour): Record<AppRole, number> {
+    if (colour === 'blue') {
+        return { client: config.clientPort, server: config.serverPort };
+    }
+
+    const ports = config.blueGreen?.ports ?? {};
+    return {
+        client: ports.client ?? config.clientPort + GREEN_PORT_OFFSET,
+        server: ports.server ?? config.serverPort + GREEN_PORT_OFFSET
+    };
+}
+
+/**
+ * The configuration one colour's apps run with: that colour's ports, and
+ * app names with the colour appended, e.g. `shop-server-green`.
+ */
+export function getColourConfig(config: DeployConfig, colour: Colour): DeployConfig {
+    const ports = getColourPorts(config, colour);
+    return { ...config, colour, clientPort: ports.client, serverPort: ports.server };
+}
+
+/**
+ * Keeps track of the two colours next to the release layout:
+ *
+ *   blue -> releases/<timestamp>    the release each colour's apps run from
+ *   green -> releases/<timestamp>
+ *   current                         whichever of the two Nginx sends traffic to
+ *
+ * A colour is live when `current` points at its release.
+ */
+export class BlueGreenManager {
+    private logger: Logger;
+    private system: SystemUtils;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+    }
+
+    /**
+     * The project as one colour's apps see it. They run through the
+     * colour's symlink, so re-pointing it is all a reload needs.
+     */
+    getColourProject(config: ReleaseConfig, project: NeexProject, colour: Colour): NeexProject {
+        return relocateProject(project, this.getColourPath(config, colour));
+    }
+
+    async getRelease(config: ReleaseConfig, colour: Colour): Promise<string | null> {
+        const target = await this.system.readLink(this.getColourPath(config, colour));
+        return target ? path.basename(target) : null;
+    }
+
+    // Releases either colour runs from, which pruning has to keep
+    async getReleases(config: ReleaseConfig): Promise<string[]> {
+        const releases = await Promise.all(COLOURS.map(colour => this.getRelease(config, colour)));
+        return releases.filter((release): release is string => release !== null);
+    }
+
+    async getLive(config: ReleaseConfig): Promise<Colour | null> {
+        const current = await this.system.readLink(path.join(path.resolve(config.path), 'current'));
+        if (!current) return null;
+
+        for (const colour of COLOURS) {
+            if (await this.getRelease(config, colour) === path.basename(current)) {
+                return colour;
+            }
+        }
+        return null;
+    }
+
+    async assign(config: ReleaseConfig, colour: Colour, release: string): Promise<void> {
+        await this.system.switchSymlink(path.join('releases', release), this.getColourPath(config, colour));
+        this.logger.success(`${colour} -> releases/${release}`);
+    }
+
+    /**
+     * Runs `stopCommand` on the server after `seconds` in a detached shell,
+     * so the deploy does not wait for it. Each schedule writes a new token
+     * to a marker file and the job only stops the colour if its token is
+     * still there; cancelRetire (on a switch back) or a newer schedule
+     * removes or replaces it. A stop that fails leaves its output in a
+     * file for takeRetireFailure.
+     */
+    async scheduleRetire(config: ReleaseConfig, colour: Colour, seconds: number, stopCommand: string): Promise<void> {
+        const marker = this.getRetireMarker(config, colour);
+        const failure = shellQuote(this.getRetireFailureFile(config, colour));
+        const token = Date.now().toString(36);
+        const job = `sleep ${seconds} && [ "$(cat ${shellQuote(marker)} 2>/dev/null)" = ${token} ] && rm -f ${shellQuote(marker)} && ` +
+            `{ ${stopCommand}; } > ${failure} 2>&1 && rm -f ${failure}`;
+
+        await this.system.writeFile(marker, token);
+        await this.system.executeShell(`nohup sh -c ${shellQuote(job)} >/dev/null 2>&1 </dev/null &`);
+    }
+
+    async cancelRetire(config: ReleaseConfig, colour: Colour): Promise<void> {
+        await this.system.removePath(this.getRetireMarker(config, colour));
+    }
+
+    /**
+     * Output of a scheduled stop of `colour` that failed, which is then
+     * forgotten; null when there was none.
+     */
+    async takeRetireFailure(config: ReleaseConfig, colour: Colour): Promise<string | null> {
+        const file = this.getRetireFailureFile(config, colour);
+        const output = await this.system.readFile(file);
+        if (output === null) return null;
+
+        await this.system.removePath(file);
+        return output.trim() || 'no output';
+    }
+
+    private getColourPath(config: ReleaseConfig, colour: Colour): string {
+        return path.join(path.resolve(config.path), colour);
+    }
+
+    private getRetireMarker(config: ReleaseConfig, colour: Colour): string {
+        return path.join(path.resolve(config.path), `.retire-${colour}`);
+    }
+
+    private getRetireFailureFile(config: ReleaseConfig, colour: Colour): string {
+        return path.join(path.resolve(config.path), `.retire-${colour}.failed`);
+    }
+}
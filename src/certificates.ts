@@ -0,0 +1,166 @@
+// src/certificates.ts
+import path from 'path';
+import { CertificateConfig, DeployConfig } from './types.js';
+import { Logger } from './utils/logger.js';
+import { SystemUtils } from './utils/system.js';
+
+export const DEFAULT_ACME_WEBROOT = '/var/www/letsencrypt';
+const SELF_SIGNED_DIR = '/etc/ssl/deploy-neex';
+
+/**
+ * The names the site answers to and its certificate covers. www.<domain>
+ * only with certificate.includeWww: a subdomain rarely has a www record,
+ * and certbot fails the whole issuance on a name it cannot validate.
+ */
+export function getServerNames(config: DeployConfig): string[] {
+    return config.certificate?.includeWww ? [config.domain, `www.${config.domain}`] : [config.domain];
+}
+
+export interface CertificatePaths {
+    certificate: string;
+    certificateKey: string;
+    // Chain used to verify OCSP responses; absent when stapling is impossible
+    trustedCertificate?: string;
+}
+
+/**
+ * Provides the certificate for the TLS server block from one of three
+ * sources: certbot webroot issuance, files supplied by the user, or a
+ * self-signed certificate for staging.
+ */
+export class CertificateManager {
+    private logger: Logger;
+    private system: SystemUtils;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+    }
+
+    getSource(config: DeployConfig): NonNullable<CertificateConfig['source']> {
+        return config.certificate?.source ?? 'certbot';
+    }
+
+    getWebroot(config: DeployConfig): string {
+        return config.certificate?.webroot ?? DEFAULT_ACME_WEBROOT;
+    }
+
+    getPaths(config: DeployConfig): CertificatePaths {
+        const options = config.certificate ?? {};
+
+        switch (this.getSource(config)) {
+            case 'custom':
+                return {
+                    certificate: options.certificate ?? '',
+                    certificateKey: options.certificateKey ?? '',
+                    trustedCertificate: options.trustedCertificate
+                };
+
+            case 'self-signed': {
+                const dir = path.join(SELF_SIGNED_DIR, config.projectName);
+                return {
+                    certificate: options.certificate ?? path.join(dir, 'fullchain.pem'),
+                    certificateKey: options.certificateKey ?? path.join(dir, 'privkey.pem')
+                };
+            }
+
+            case 'certbot': {
+                const dir = `/etc/letsencrypt/live/${config.domain}`;
+                return {
+                    certificate: `${dir}/fullchain.pem`,
+                    certificateKey: `${dir}/privkey.pem`,
+                    trustedCertificate: `${dir}/chain.pem`
+                };
+            }
+        }
+    }
+
+    async exists(config: DeployConfig): Promise<boolean> {
+        const paths = this.getPaths(config);
+        return await this.system.pathExists(paths.certificate) && await this.system.pathExists(paths.certificateKey);
+    }
+
+    /**
+     * Makes sure the certificate files exist. Certbot issuance needs Nginx
+     * to already serve the ACME challenge location for the domain;
+     * `reloadCommand` is what certbot runs after each renewal.
+     */
+    async ensure(config: DeployConfig, reloadCommand: string = 'nginx -s reload'): Promise<void> {
+        const source = this.getSource(config);
+        const paths = this.getPaths(config);
+
+        if (source === 'custom') {
+            if (!paths.certificate || !paths.certificateKey) {
+                throw new Error('certificate.certificate and certificate.certificateKey are required for custom certificates');
+            }
+            if (!await this.exists(config)) {
+                throw new Error(`Certificate files not found: ${paths.certificate}, ${paths.certificateKey}`);
+            }
+            this.logger.success('Using provided certificate');
+            return;
+        }
+
+        if (await this.exists(config)) {
+            this.logger.success(`Certificate already present at ${paths.certificate}`);
+            return;
+        }
+
+        if (source === 'self-signed') {
+            await this.createSelfSigned(config, paths);
+        } else {
+            await this.issueWithCertbot(config, reloadCommand);
+        }
+    }
+
+    private async createSelfSigned(config: DeployConfig, paths: CertificatePaths): Promise<void> {
+        if (!await this.system.checkCommand('openssl')) {
+            throw new Error('openssl is required to create a self-signed certificate');
+        }
+
+        this.logger.step('Creating self-signed certificate...');
+        await this.system.ensureDir(path.dirname(paths.certificate));
+        await this.system.ensureDir(path.dirname(paths.certificateKey));
+        await this.system.executeCommand('openssl', [
+            'req', '-x509', '-nodes',
+            '-newkey', 'rsa:2048',
+            '-days', '365',
+            '-keyout', paths.certificateKey,
+            '-out', paths.certificate,
+            '-subj', `/CN=${config.domain}`,
+            '-addext', `subjectAltName=${getServerNames(config).map(name => `DNS:${name}`).join(',')}`
+        ]);
+        this.logger.warning('Self-signed certificates are not trusted by browsers; use them for staging only');
+    }
+
+    private async issueWithCertbot(config: DeployConfig, reloadCommand: string): Promise<void> {
+        if (!config.email) {
+            throw new Error('An email address is required for certbot issuance');
+        }
+        if (!await this.system.checkCommand('certbot')) {
+            throw new Error('certbot is not installed (Ubuntu/Debian: sudo apt install certbot)');
+        }
+
+        const options = config.certificate ?? {};
+        const webroot = this.getWebroot(config);
+        const args = [
+            'certonly', '--webroot',
+            '-w', webroot,
+            ...getServerNames(config).flatMap(name => ['-d', name]),
+            '--email', config.email,
+            '--agree-tos',
+            '--non-interactive',
+            '--deploy-hook', reloadCommand
+        ];
+
+        // Point the ACME client at another CA, e.g. a local Pebble instance for offline tests
+        if (options.acmeServer) {
+            args.push('--server', options.acmeServer);
+        }
+
+        this.logger.step(`Requesting certificate for ${config.domain}...`);
+        await this.system.ensureDir(webroot);
+        await this.system.executeCommand('certbot', args, undefined,
+            options.acmeCaBundle ? { REQUESTS_CA_BUNDLE: options.acmeCaBundle } : undefined);
+        this.logger.success('Certificate issued');
+    }
+}
@@ -1,23 +1,71 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ConfigLoader, CONFIG_FILE_NAMES } from './config/loader.js';
 import { NeexDetector } from './detector.js';
 import { Deployer } from './deployer.js';
-import { DeployConfig } from './types.js';
+import { AppRole, DeployConfig, NeexProject } from './types.js';
+import { ProcessManager, createProcessManager } from './generators/process-manager.js';
+import { PortChecker } from './ports.js';
+import { DEFAULT_ENV_EXAMPLE, EnvFile, maskValue } from './env.js';
+import { KEY_ENV_VAR, PASSPHRASE_ENV_VAR, SecretsKey, SecretsManager, getSecretsPath } from './secrets.js';
+import { openTransport, getRemoteTarget } from './remote.js';
+import { BlueGreenManager, getColourConfig, getColourPorts } from './blue-green.js';
+import { DeploymentHistory, DeploymentRecord, formatDuration } from './state.js';
 import { Logger } from './utils/logger.js';
+import { SystemUtils } from './utils/system.js';
+import { Transport } from './utils/transport.js';
 
 const program = new Command();
 const logger = new Logger();
 
-async function promptForConfig(project: any, clientPort: number, serverPort: number, options: any): Promise<DeployConfig> {
+function defaultConfig(project: NeexProject, clientPort: number, serverPort: number): DeployConfig {
+  return {
+    projectName: 'neex-app',
+    domain: 'localhost',
+    ssl: false,
+    clientPort,
+    serverPort,
+    packageManager: project.packageManager as DeployConfig['packageManager'],
+    environment: 'production',
+    autoStart: true,
+    nginxConfig: true
+  };
+}
+
+function configFromFlags(options: any, command: Command): Partial<DeployConfig> {
+  const flags: Partial<DeployConfig> = {};
+  const fromCli = (key: string) => command.getOptionValueSource(key) === 'cli';
+
+  if (options.domain) flags.domain = options.domain;
+  if (fromCli('nginx')) flags.nginxConfig = options.nginx;
+  if (fromCli('ssl')) flags.ssl = options.ssl;
+  if (options.skipMigrations) flags.migrations = { enabled: false };
+  if (options.target) flags.target = options.target;
+  if (options.host) flags.remote = { host: options.host };
+  if (options.ref) flags.git = { ...flags.git, ref: options.ref };
+  if (options.force) flags.git = { ...flags.git, allowDirty: true };
+
+  return flags;
+}
+
+async function promptForConfig(project: NeexProject, defaults: DeployConfig, preset: Partial<DeployConfig> = {}): Promise<Partial<DeployConfig>> {
+  // Keys already settled by the config file or CLI flags are not asked again
+  const ask = (key: keyof DeployConfig) => preset[key] === undefined;
+  const current = (answers: any): DeployConfig => ({ ...defaults, ...answers, ...preset });
+
   const answers = await inquirer.prompt([
     {
       type: 'input',
       name: 'projectName',
       message: 'Enter project name:',
-      default: 'neex-app',
+      default: defaults.projectName,
+      when: () => ask('projectName'),
       validate: (input: string) => {
         if (!input.trim()) return 'Project name is required';
         if (!/^[a-zA-Z0-9-_]+$/.test(input)) return 'Project name can only contain letters, numbers, hyphens, and underscores';
@@ -28,7 +76,8 @@ async function promptForConfig(project: any, clientPort: number, serverPort: num
       type: 'input',
       name: 'domain',
       message: 'Enter domain name:',
-      default: options.domain || 'localhost',
+      default: defaults.domain,
+      when: () => ask('domain'),
       validate: (input: string) => {
         if (!input.trim()) return 'Domain is required';
         return true;
@@ -39,26 +88,55 @@ async function promptForConfig(project: any, clientPort: number, serverPort: num
       name: 'environment',
       message: 'Select environment:',
       choices: ['production', 'staging'],
-      default: 'production'
+      default: defaults.environment,
+      when: () => ask('environment')
     },
     {
       type: 'confirm',
       name: 'nginxConfig',
       message: 'Setup Nginx configuration?',
-      default: !options.noNginx
+      default: defaults.nginxConfig,
+      when: () => ask('nginxConfig')
     },
     {
       type: 'confirm',
       name: 'ssl',
       message: 'Setup SSL certificate?',
-      default: !options.noSsl,
-      when: (answers: any) => answers.nginxConfig && answers.domain !== 'localhost'
+      default: true,
+      when: (answers: any) => ask('ssl') && current(answers).nginxConfig && current(answers).domain !== 'localhost'
+    },
+    {
+      type: 'list',
+      name: 'certificateSource',
+      message: 'Certificate source:',
+      choices: [
+        { name: "Let's Encrypt (certbot)", value: 'certbot' },
+        { name: 'Existing certificate files', value: 'custom' },
+        { name: 'Self-signed (staging only)', value: 'self-signed' }
+      ],
+      default: 'certbot',
+      when: (answers: any) => ask('certificate') && current(answers).ssl
+    },
+    {
+      type: 'input',
+      name: 'certificatePath',
+      message: 'Path to certificate (fullchain):',
+      when: (answers: any) => answers.certificateSource === 'custom',
+      validate: (input: string) => input.trim() ? true : 'Certificate path is required'
+    },
+    {
+      type: 'input',
+      name: 'certificateKeyPath',
+      message: 'Path to certificate key:',
+      when: (answers: any) => answers.certificateSource === 'custom',
+      validate: (input: string) => input.trim() ? true : 'Key path is required'
     },
     {
       type: 'input',
       name: 'email',
       message: 'Enter email for SSL certificate:',
-      when: (answers: any) => answers.ssl,
+      when: (answers: any) => ask('email') && current(answers).ssl &&
+        (answers.certificateSource ?? current(answers).certificate?.source ?? 'certbot') === 'certbot',
       validate: (input: string) => {
         const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
         if (!emailRegex.test(input)) return 'Please enter a valid email address';
@@ -69,8 +147,8 @@ async function promptForConfig(project: any, clientPort: number, serverPort: num
       type: 'input',
       name: 'clientPort',
       message: 'Client port:',
-      default: clientPort.toString(),
-      when: () => project.hasClient,
+      default: defaults.clientPort.toString(),
+      when: () => project.hasClient && preset.clientMode !== 'static' && ask('clientPort'),
       validate: (input: string) => {
         const port = parseInt(input);
         if (isNaN(port) || port < 1 || port > 65535) return 'Please enter a valid port number (1-65535)';
@@ -81,8 +159,8 @@ async function promptForConfig(project: any, clientPort: number, serverPort: num
       type: 'input',
       name: 'serverPort',
       message: 'Server port:',
-      default: serverPort.toString(),
-      when: () => project.hasServer,
+      default: defaults.serverPort.toString(),
+      when: () => project.hasServer && ask('serverPort'),
       validate: (input: string) => {
         const port = parseInt(input);
         if (isNaN(port) || port < 1 || port > 65535) return 'Please enter a valid port number (1-65535)';
@@ -93,24 +171,213 @@ async function promptForConfig(project: any, clientPort: number, serverPort: num
       type: 'confirm',
       name: 'autoStart',
       message: 'Auto-start services on system boot?',
-      default: true
+      default: defaults.autoStart,
+      when: () => ask('autoStart')
     }
   ]);
 
+  const { certificateSource, certificatePath, certificateKeyPath, ...rest } = answers;
+
   return {
-    projectName: answers.projectName,
-    domain: answers.domain,
-    ssl: answers.ssl || false,
-    email: answers.email,
-    clientPort: project.hasClient ? parseInt(answers.clientPort) : clientPort,
-    serverPort: project.hasServer ? parseInt(answers.serverPort) : serverPort,
-    packageManager: project.packageManager as any,
-    environment: answers.environment,
-    autoStart: answers.autoStart,
-    nginxConfig: answers.nginxConfig
+    ...rest,
+    certificate: certificateSource ? {
+      source: certificateSource,
+      certificate: certificatePath,
+      certificateKey: certificateKeyPath
+    } : undefined,
+    clientPort: answers.clientPort !== undefined ? parseInt(answers.clientPort) : undefined,
+    serverPort: answers.serverPort !== undefined ? parseInt(answers.serverPort) : undefined
   };
 }
 
+/**
+ * Builds the effective configuration with precedence
+ * detected defaults < prompt answers < config file < CLI flags.
+ */
+async function resolveConfig(detector: NeexDetector, project: NeexProject, fileConfig: Partial<DeployConfig>, options: any, command: Command, interactive: boolean): Promise<DeployConfig> {
+  const { clientPort, serverPort } = await detector.detectPorts(project);
+
+  const loader = new ConfigLoader(logger);
+  const preset = loader.merge<Partial<DeployConfig>>(fileConfig, configFromFlags(options, command));
+  const defaults = defaultConfig(project, clientPort, serverPort);
+
+  const answers = interactive ? await promptForConfig(project, defaults, preset) : {};
+  const config = loader.merge<DeployConfig>(defaults, answers, preset);
+  loader.validate(config);
+
+  return config;
+}
+
+/**
+ * Loads the config file first so that `apps.<role>.path` and
+ * `apps.<role>.framework` can steer project detection.
+ */
+async function detectProject(detector: NeexDetector, configOption?: string): Promise<{ project: NeexProject; fileConfig: Partial<DeployConfig>; configPath: string | null }> {
+  const rootPath = process.cwd();
+  const loader = new ConfigLoader(logger);
+  const configPath = await loader.resolvePath(rootPath, configOption);
+  const fileConfig: Partial<DeployConfig> = configPath ? await loader.load(configPath) : {};
+  const project = await detector.detectProject(rootPath, fileConfig.apps);
+
+  if (!project) {
+    process.exit(1);
+  }
+
+  return { project, fileConfig, configPath };
+}
+
+/**
+ * Makes sure the configured ports can be used. A busy port is swapped for
+ * the next free one (after confirmation unless prompts are skipped) and
+ * the new value is written to the config file so later runs agree.
+ */
+async function resolvePortConflicts(config: DeployConfig, project: NeexProject, configPath: string | null, options: any, transport: Transport): Promise<void> {
+  const system = new SystemUtils(logger, transport);
+  const checker = new PortChecker(logger, system);
+  const conflicts = await checker.findConflicts(config, project, createProcessManager(config, logger, system));
+  const updates: Partial<DeployConfig> = {};
+
+  const reserved = () => [config.clientPort, config.serverPort, ...(config.blueGreen ? Object.values(getColourPorts(config, 'green')) : [])];
+
+  for (const conflict of conflicts) {
+    const key = conflict.role === 'client' ? 'clientPort' : 'serverPort';
+    const owner = conflict.pids.length > 0 ? ` by pid ${conflict.pids.join(', ')}` : '';
+    const next = await checker.findFreePort(conflict.port, reserved());
+    const label = conflict.colour ? `${conflict.colour} ${conflict.role}` : conflict.role;
+
+    logger.warning(`The ${label} port ${conflict.port} is already in use${owner}`);
+
+    if (options.plan) {
+      logger.info(`A deploy would offer port ${next} instead`);
+      continue;
+    }
+
+    if (!options.yes) {
+      const { accept } = await inquirer.prompt([{
+        type: 'confirm',
+        name: 'accept',
+        message: `Use port ${next} for the ${label} instead?`,
+        default: true
+      }]);
+
+      if (!accept) {
+        throw new Error(`Port ${conflict.port} is not available`);
+      }
+    }
+
+    if (conflict.colour === 'green') {
+      config.blueGreen = { ...config.blueGreen, ports: { ...config.blueGreen?.ports, [conflict.role]: next } };
+      updates.blueGreen = config.blueGreen;
+    } else {
+      config[key] = next;
+      updates[key] = next;
+    }
+  }
+
+  if (Object.keys(updates).length > 0) {
+    const target = configPath ?? path.join(project.rootPath, CONFIG_FILE_NAMES[0]);
+    await new ConfigLoader(logger).update(target, updates);
+    logger.success(`Saved the new port${Object.keys(updates).length > 1 ? 's' : ''} to ${path.basename(target)}`);
+  }
+}
+
+function parseTarget(value: string): NonNullable<DeployConfig['target']> {
+  if (value !== 'host' && value !== 'docker') {
+    throw new InvalidArgumentError('Expected "host" or "docker".');
+  }
+  return value;
+}
+
+function parseLimit(value: string): number {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new InvalidArgumentError('Expected a whole number of at least 1.');
+  }
+  return limit;
+}
+
+function parseApp(value: string): AppRole {
+  if (value !== 'client' && value !== 'server') {
+    throw new InvalidArgumentError('Expected "client" or "server".');
+  }
+  return value;
+}
+
+function describeRevision(record: DeploymentRecord): string {
+  if (!record.revision) return '';
+  const { version, sha, author, message } = record.revision;
+  return `${version} (${sha.slice(0, 7)}) by ${author}: ${message}`;
+}
+
+function printDeployment(record: DeploymentRecord): void {
+  const { config } = record;
+  const outcome = record.outcome === 'success' ? chalk.green('succeeded') : chalk.red('failed');
+
+  console.log(chalk.bold(`\n${record.kind} ${record.id}`), outcome);
+  console.log(`   Host:     ${record.target}`);
+  console.log(`   Started:  ${record.startedAt} (took ${formatDuration(record.durationMs)})`);
+  if (record.revision) {
+    console.log(`   Revision: ${describeRevision(record)}`);
+  }
+  if (record.release) {
+    console.log(`   Release:  ${record.release}${record.colour ? ` (${record.colour})` : ''}`);
+  }
+  console.log(`   Domain:   ${config.domain}${config.ssl ? ' (ssl)' : ''}`);
+  console.log(`   Ports:    client ${config.clientPort}, server ${config.serverPort}`);
+  console.log(`   Target:   ${config.target ?? 'host'}${config.target === 'docker' ? '' : `, ${config.processManager ?? 'pm2'}`}`);
+  if (record.error) {
+    console.log(chalk.red(`   Error:    ${record.error}`));
+  }
+
+  if (record.steps.length > 0) {
+    console.log('\n⏱  Steps:');
+    record.steps.forEach(step => console.log(`   ${formatDuration(step.durationMs).padStart(8)}  ${step.name}`));
+  }
+
+  if (record.files.length > 0) {
+    console.log('\n📄 Files:');
+    record.files.forEach(file => console.log(`   ${file.sha256 ? file.sha256.slice(0, 12) : chalk.gray('(hidden)    ')}  ${file.path}`));
+  }
+  console.log('');
+}
+
+/**
+ * Detects the project and loads its configuration without prompting, for
+ * the commands that manage an existing deployment. With blue/green deploys
+ * that is the live colour.
+ */
+async function loadProjectContext(options: any, command: Command): Promise<{ config: DeployConfig; project: NeexProject; processes: ProcessManager; system: SystemUtils }> {
+  logger.setQuiet(true);
+
+  try {
+    const detector = new NeexDetector(logger);
+    const { project, fileConfig } = await detectProject(detector, options.config);
+    const config = await resolveConfig(detector, project, fileConfig, options, command, false);
+    const transport = await openTransport(config);
+    const system = new SystemUtils(logger, transport);
+    const target = transport.remote ? getRemoteTarget(config, project, transport.getHomeDir()) : { config, project };
+
+    if (target.config.blueGreen && target.config.releases) {
+      const blueGreen = new BlueGreenManager(logger, system);
+      const live = await blueGreen.getLive(target.config.releases);
+
+      if (live) {
+        const colourConfig = getColourConfig(target.config, live);
+        return {
+          config: colourConfig,
+          project: blueGreen.getColourProject(target.config.releases, target.project, live),
+          processes: createProcessManager(colourConfig, logger, system),
+          system
+        };
+      }
+    }
+
+    return { ...target, processes: createProcessManager(target.config, logger, system), system };
+  } finally {
+    logger.setQuiet(false);
+  }
+}
+
 program
   .name('deploy-neex')
   .description('CLI tool for deploying Neex applications')
@@ -119,51 +386,109 @@ program
 program
   .command('deploy')
   .description('Deploy a Neex application')
-  .option('-c, --config <path>', 'Path to configuration file')
+  .option('-c, --config <path>', 'Path to configuration file (defaults to deploy.neex.yml)')
   .option('-y, --yes', 'Skip prompts and use defaults')
   .option('--domain <domain>', 'Domain name')
   .option('--no-nginx', 'Skip Nginx configuration')
   .option('--no-ssl', 'Skip SSL setup')
-  .action(async (options) => {
+  .option('--skip-migrations', 'Do not run database migrations')
+  .option('--target <target>', 'Run on the host (default) or as a docker compose stack', parseTarget)
+  .option('--host <host>', 'Deploy over SSH to user@server instead of this machine')
+  .option('--ref <ref>', 'Deploy a branch, tag or commit instead of the working tree')
+  .option('--force', 'Deploy even if the working tree has uncommitted changes')
+  .option('--plan', 'Show the files and commands a deploy would produce without applying them')
+  .action(async (options, command: Command) => {
     try {
       console.log(chalk.blue.bold('\n🚀 Neex Deployment Tool\n'));
 
       // Detect project
+      const detector = new NeexDetector(logger);
+      const { project, fileConfig, configPath } = await detectProject(detector, options.config);
+      const config = await resolveConfig(detector, project, fileConfig, options, command, !options.yes);
+      const transport = await openTransport(config);
+      await resolvePortConflicts(config, project, configPath, options, transport);
+
+      // Deploy
+      const deployer = new Deployer(transport);
+      if (options.plan) {
+        await deployer.plan(config, project);
+      } else {
+        await deployer.deploy(config, project);
+      }
+
+    } catch (error: any) {
+      logger.error(`Deployment failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('init')
+  .description('Write a deploy.neex.yml from interactive answers')
+  .option('-o, --output <path>', 'Configuration file to write', CONFIG_FILE_NAMES[0])
+  .option('-f, --force', 'Overwrite an existing configuration file')
+  .action(async (options) => {
+    try {
       const detector = new NeexDetector(logger);
       const project = await detector.detectProject();
-      
+
       if (!project) {
         process.exit(1);
       }
 
-      // Detect ports
+      const outputPath = path.resolve(project.rootPath, options.output);
+      if (await fs.pathExists(outputPath) && !options.force) {
+        logger.error(`${options.output} already exists. Use --force to overwrite it.`);
+        process.exit(1);
+      }
+
       const { clientPort, serverPort } = await detector.detectPorts(project);
+      const loader = new ConfigLoader(logger);
+      const defaults = defaultConfig(project, clientPort, serverPort);
+      const config = loader.merge<DeployConfig>(defaults, await promptForConfig(project, defaults));
+      loader.validate(config);
 
-      // Get configuration
-      let config: DeployConfig;
-      
-      if (options.yes) {
-        config = {
-          projectName: 'neex-app',
-          domain: options.domain || 'localhost',
-          ssl: !options.noSsl,
-          clientPort,
-          serverPort,
-          packageManager: project.packageManager as any,
-          environment: 'production',
-          autoStart: true,
-          nginxConfig: !options.noNginx
-        };
-      } else {
-        config = await promptForConfig(project, clientPort, serverPort, options);
-      }
+      await loader.save(outputPath, config);
+      logger.success(`Configuration written to ${options.output}`);
+      logger.info('Commit it and run deploy-neex deploy to reuse these settings');
+    } catch (error: any) {
+      logger.error(`Failed to write configuration: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-      // Deploy
-      const deployer = new Deployer();
-      await deployer.deploy(config, project);
+program
+  .command('rollback [release]')
+  .description('Switch back to a previous release (the one before current by default)')
+  .option('-c, --config <path>', 'Path to configuration file (defaults to deploy.neex.yml)')
+  .option('--host <host>', 'Roll back on user@server over SSH')
+  .action(async (release: string | undefined, options, command: Command) => {
+    try {
+      const detector = new NeexDetector(logger);
+      const { project, fileConfig } = await detectProject(detector, options.config);
+      const config = await resolveConfig(detector, project, fileConfig, options, command, false);
+      const deployer = new Deployer(await openTransport(config));
+      await deployer.rollback(config, project, release);
+    } catch (error: any) {
+      logger.error(`Rollback failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
+program
+  .command('switch')
+  .description('Send traffic back to the other blue/green colour')
+  .option('-c, --config <path>', 'Path to configuration file (defaults to deploy.neex.yml)')
+  .option('--host <host>', 'Switch on user@server over SSH')
+  .action(async (options, command: Command) => {
+    try {
+      const detector = new NeexDetector(logger);
+      const { project, fileConfig } = await detectProject(detector, options.config);
+      const config = await resolveConfig(detector, project, fileConfig, options, command, false);
+      const deployer = new Deployer(await openTransport(config));
+      await deployer.switchColour(config, project);
     } catch (error: any) {
-      logger.error(`Deployment failed: ${error.message}`);
+      logger.error(`Switch failed: ${error.message}`);
       process.exit(1);
     }
   });
@@ -171,83 +496,432 @@ program
 program
   .command('status')
   .description('Check deployment status')
-  .action(async () => {
+  .option('-c, --config <path>', 'Path to configuration file (defaults to deploy.neex.yml)')
+  .option('--app <app>', 'Only act on the client or the server app', parseApp)
+  .option('--target <target>', 'Deployment target, when not set in the configuration file', parseTarget)
+  .option('--host <host>', 'Manage the deployment on user@server over SSH')
+  .action(async (options, command: Command) => {
+    try {
+      const { config, project, processes, system } = await loadProjectContext(options, command);
+      await processes.status(config, project, options.app);
+
+      const { deployments } = await new DeploymentHistory(logger, system).load(config);
+      const latest = deployments.filter(record => record.outcome === 'success').pop();
+      if (latest) {
+        logger.info(`Last ${latest.kind} ${latest.id} finished ${latest.finishedAt}${latest.revision ? `: ${describeRevision(latest)}` : ''}`);
+      }
+    } catch (error: any) {
+      logger.error(`Failed to get status: ${error.message}`);
+    }
+  });
+
+program
+  .command('history [id]')
+  .description('List past deployments, or inspect one by id (or "latest")')
+  .option('-c, --config <path>', 'Path to configuration file (defaults to deploy.neex.yml)')
+  .option('--host <host>', 'Read the history on user@server over SSH')
+  .option('-n, --limit <number>', 'Number of deployments to list', parseLimit, 20)
+  .option('--json', 'Print the records as JSON')
+  .action(async (id: string | undefined, options, command: Command) => {
     try {
-      const { execa } = await import('execa');
-      await execa('pm2', ['status'], { stdio: 'inherit' });
-    } catch (error) {
-      logger.error('Failed to get status. Is PM2 installed?');
+      const { config, system } = await loadProjectContext(options, command);
+      const history = new DeploymentHistory(logger, system);
+      const state = await history.load(config);
+
+      if (id) {
+        const record = history.find(state, id);
+        if (options.json) {
+          console.log(JSON.stringify(record, null, 2));
+        } else {
+          printDeployment(record);
+        }
+        return;
+      }
+
+      const deployments = state.deployments.slice(-options.limit).reverse();
+      if (options.json) {
+        console.log(JSON.stringify(deployments, null, 2));
+        return;
+      }
+      if (deployments.length === 0) {
+        logger.info(`No deployments of ${config.projectName} recorded yet`);
+        return;
+      }
+
+      console.table(deployments.map(record => ({
+        id: record.id,
+        kind: record.kind,
+        outcome: record.outcome,
+        started: record.startedAt,
+        duration: formatDuration(record.durationMs),
+        revision: record.revision ? `${record.revision.version} (${record.revision.sha.slice(0, 7)})` : '',
+        release: record.release ? `${record.release}${record.colour ? ` (${record.colour})` : ''}` : ''
+      })));
+      logger.info('deploy-neex history <id> shows the steps, files and configuration of one deployment');
+    } catch (error: any) {
+      logger.error(`Failed to read the deployment history: ${error.message}`);
+      process.exit(1);
     }
   });
 
 program
   .command('logs')
   .description('Show application logs')
+  .option('-c, --config <path>', 'Path to configuration file (defaults to deploy.neex.yml)')
+  .option('--app <app>', 'Only act on the client or the server app', parseApp)
+  .option('--target <target>', 'Deployment target, when not set in the configuration file', parseTarget)
+  .option('--host <host>', 'Manage the deployment on user@server over SSH')
   .option('-f, --follow', 'Follow logs')
   .option('-l, --lines <number>', 'Number of lines to show', '50')
-  .action(async (options) => {
+  .action(async (options, command: Command) => {
     try {
-      const { execa } = await import('execa');
-      const args = ['logs'];
-      
-      if (options.follow) args.push('-f');
-      if (options.lines) args.push('--lines', options.lines);
-      
-      await execa('pm2', args, { stdio: 'inherit' });
-    } catch (error) {
-      logger.error('Failed to show logs. Is PM2 installed?');
+      const { config, project, processes } = await loadProjectContext(options, command);
+      await processes.logs(config, project, {
+        follow: Boolean(options.follow),
+        lines: parseInt(options.lines)
+      }, options.app);
+    } catch (error: any) {
+      logger.error(`Failed to show logs: ${error.message}`);
     }
   });
 
 program
   .command('stop')
-  .description('Stop all services')
-  .action(async () => {
+  .description('Stop this project\'s services')
+  .option('-c, --config <path>', 'Path to configuration file (defaults to deploy.neex.yml)')
+  .option('--app <app>', 'Only act on the client or the server app', parseApp)
+  .option('--target <target>', 'Deployment target, when not set in the configuration file', parseTarget)
+  .option('--host <host>', 'Manage the deployment on user@server over SSH')
+  .action(async (options, command: Command) => {
     try {
-      const { execa } = await import('execa');
-      await execa('pm2', ['stop', 'all'], { stdio: 'inherit' });
-      logger.success('All services stopped');
-    } catch (error) {
-      logger.error('Failed to stop services. Is PM2 installed?');
+      const { config, project, processes } = await loadProjectContext(options, command);
+      await processes.stop(config, project, options.app);
+      logger.success(options.app ? `${options.app} stopped` : 'All services stopped');
+    } catch (error: any) {
+      logger.error(`Failed to stop services: ${error.message}`);
     }
   });
 
 program
   .command('restart')
-  .description('Restart all services')
-  .action(async () => {
+  .description('Restart this project\'s services')
+  .option('-c, --config <path>', 'Path to configuration file (defaults to deploy.neex.yml)')
+  .option('--app <app>', 'Only act on the client or the server app', parseApp)
+  .option('--target <target>', 'Deployment target, when not set in the configuration file', parseTarget)
+  .option('--host <host>', 'Manage the deployment on user@server over SSH')
+  .action(async (options, command: Command) => {
     try {
-      const { execa } = await import('execa');
-      await execa('pm2', ['restart', 'all'], { stdio: 'inherit' });
-      logger.success('All services restarted');
-    } catch (error) {
-      logger.error('Failed to restart services. Is PM2 installed?');
+      const { config, project, processes } = await loadProjectContext(options, command);
+      await processes.restart(config, project, options.app);
+      logger.success(options.app ? `${options.app} restarted` : 'All services restarted');
+    } catch (error: any) {
+      logger.error(`Failed to restart services: ${error.message}`);
     }
   });
 
 program
   .command('delete')
-  .description('Delete all services')
-  .action(async () => {
+  .description('Delete this project\'s services')
+  .option('-c, --config <path>', 'Path to configuration file (defaults to deploy.neex.yml)')
+  .option('--app <app>', 'Only act on the client or the server app', parseApp)
+  .option('--target <target>', 'Deployment target, when not set in the configuration file', parseTarget)
+  .option('--host <host>', 'Manage the deployment on user@server over SSH')
+  .action(async (options, command: Command) => {
     try {
-      const { execa } = await import('execa');
+      const { config, project, processes } = await loadProjectContext(options, command);
       const confirm = await inquirer.prompt([
         {
           type: 'confirm',
           name: 'confirmDelete',
-          message: 'Are you sure you want to delete all PM2 processes?',
+          message: `Are you sure you want to delete ${options.app ? `the ${options.app}` : 'all'} ${processes.name} services for ${config.projectName}?`,
           default: false
         }
       ]);
 
       if (confirm.confirmDelete) {
-        await execa('pm2', ['delete', 'all'], { stdio: 'inherit' });
-        logger.success('All services deleted');
+        await processes.delete(config, project, options.app);
+        logger.success(options.app ? `${options.app} deleted` : 'All services deleted');
       } else {
         logger.info('Operation cancelled');
       }
-    } catch (error) {
-      logger.error('Failed to delete services. Is PM2 installed?');
+    } catch (error: any) {
+      logger.error(`Failed to delete services: ${error.message}`);
+    }
+  });
+
+const env = program
+  .command('env')
+  .description('Inspect and edit the project .env file');
+
+function envPath(options: any): string {
+  return path.resolve(process.cwd(), options.file);
+}
+
+env
+  .command('list')
+  .description('List variables (secrets are masked)')
+  .option('-f, --file <path>', 'Env file to read', '.env')
+  .option('--reveal', 'Show secret values')
+  .action(async (options) => {
+    try {
+      const file = await EnvFile.load(envPath(options));
+      for (const [key, value] of Object.entries(file.toRecord())) {
+        console.log(`${chalk.cyan(key)}=${options.reveal ? value : maskValue(key, value)}`);
+      }
+    } catch (error: any) {
+      logger.error(`Failed to list variables: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+env
+  .command('get <key>')
+  .description('Print one variable (masked if it is a secret)')
+  .option('-f, --file <path>', 'Env file to read', '.env')
+  .option('--reveal', 'Show the value even if it is a secret')
+  .action(async (key: string, options) => {
+    try {
+      const value = (await EnvFile.load(envPath(options))).get(key);
+      if (value === undefined) {
+        logger.error(`${key} is not set in ${options.file}`);
+        process.exit(1);
+      }
+      console.log(options.reveal ? value : maskValue(key, value));
+    } catch (error: any) {
+      logger.error(`Failed to read ${key}: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+env
+  .command('set <key> <value>')
+  .description('Set a variable, keeping the rest of the file as it is')
+  .option('-f, --file <path>', 'Env file to edit', '.env')
+  .action(async (key: string, value: string, options) => {
+    try {
+      if (!/^[A-Za-z_][\w.]*$/.test(key)) {
+        throw new Error(`Invalid variable name: ${key}`);
+      }
+      const filePath = envPath(options);
+      const file = await EnvFile.load(filePath);
+      const existed = file.has(key);
+      file.set(key, value);
+      await fs.writeFile(filePath, file.toString().endsWith('\n') ? file.toString() : file.toString() + '\n');
+      logger.success(`${existed ? 'Updated' : 'Added'} ${key} in ${options.file}`);
+    } catch (error: any) {
+      logger.error(`Failed to set ${key}: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+env
+  .command('unset <key>')
+  .description('Remove a variable')
+  .option('-f, --file <path>', 'Env file to edit', '.env')
+  .action(async (key: string, options) => {
+    try {
+      const filePath = envPath(options);
+      const file = await EnvFile.load(filePath);
+      if (!file.unset(key)) {
+        logger.warning(`${key} is not set in ${options.file}`);
+        return;
+      }
+      await fs.writeFile(filePath, file.toString());
+      logger.success(`Removed ${key} from ${options.file}`);
+    } catch (error: any) {
+      logger.error(`Failed to unset ${key}: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+env
+  .command('diff [other]')
+  .description(`Compare the env file with another one (${DEFAULT_ENV_EXAMPLE} by default)`)
+  .option('-f, --file <path>', 'Env file to compare', '.env')
+  .option('--reveal', 'Show secret values')
+  .action(async (other: string | undefined, options) => {
+    try {
+      const otherName = other ?? DEFAULT_ENV_EXAMPLE;
+      const otherPath = path.resolve(process.cwd(), otherName);
+      if (!await fs.pathExists(otherPath)) {
+        throw new Error(`${otherName} not found`);
+      }
+
+      const current = (await EnvFile.load(envPath(options))).toRecord();
+      const reference = (await EnvFile.load(otherPath)).toRecord();
+      const show = (key: string, value: string) => options.reveal ? value : maskValue(key, value);
+      let differences = 0;
+
+      for (const key of Object.keys(reference)) {
+        if (!(key in current)) {
+          console.log(chalk.red(`- ${key} (only in ${otherName})`));
+          differences++;
+        } else if (current[key] !== reference[key]) {
+          console.log(chalk.yellow(`~ ${key}: ${show(key, reference[key])} -> ${show(key, current[key])}`));
+          differences++;
+        }
+      }
+      for (const key of Object.keys(current)) {
+        if (!(key in reference)) {
+          console.log(chalk.green(`+ ${key} (only in ${options.file})`));
+          differences++;
+        }
+      }
+
+      if (differences === 0) {
+        logger.success(`${options.file} and ${otherName} define the same values`);
+      }
+    } catch (error: any) {
+      logger.error(`Failed to compare env files: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+const secrets = program
+  .command('secrets')
+  .description('Manage the encrypted .env.<environment>.enc secrets file');
+
+/**
+ * Project root, target environment and deploy file settings for the
+ * secrets commands. The environment comes from --environment, then the
+ * deploy file, then production.
+ */
+async function loadSecretsContext(options: any): Promise<{ rootPath: string; environment: string; fileConfig: Partial<DeployConfig>; manager: SecretsManager }> {
+  const rootPath = process.cwd();
+  const loader = new ConfigLoader(logger);
+  logger.setQuiet(true);
+
+  try {
+    const configPath = await loader.resolvePath(rootPath, options.config);
+    const fileConfig: Partial<DeployConfig> = configPath ? await loader.load(configPath) : {};
+    const environment = options.environment ?? fileConfig.environment ?? 'production';
+
+    return { rootPath, environment, fileConfig, manager: new SecretsManager(logger, new SystemUtils(logger)) };
+  } finally {
+    logger.setQuiet(false);
+  }
+}
+
+async function getSecretsKey(rootPath: string, fileConfig: Partial<DeployConfig>, manager: SecretsManager, options: any, create: boolean): Promise<SecretsKey> {
+  if (options.passphrase) {
+    if (process.env[PASSPHRASE_ENV_VAR]) {
+      return { kind: 'passphrase', passphrase: process.env[PASSPHRASE_ENV_VAR]! };
+    }
+
+    const answers = await inquirer.prompt([
+      { type: 'password', name: 'passphrase', message: 'Passphrase:', mask: '*' },
+      { type: 'password', name: 'confirmation', message: 'Repeat passphrase:', mask: '*', when: () => create }
+    ]);
+    if (!answers.passphrase) {
+      throw new Error('The passphrase must not be empty');
+    }
+    if (create && answers.passphrase !== answers.confirmation) {
+      throw new Error('Passphrases do not match');
+    }
+    return { kind: 'passphrase', passphrase: answers.passphrase };
+  }
+
+  const key = await manager.resolveKey(rootPath, fileConfig);
+  if (key) {
+    return key;
+  }
+  if (create) {
+    return manager.createKeyFile(rootPath, fileConfig);
+  }
+
+  const keyFile = path.relative(rootPath, manager.getKeyFile(rootPath, fileConfig));
+  throw new Error(`No key found. Provide ${keyFile}, ${KEY_ENV_VAR} or ${PASSPHRASE_ENV_VAR}, or pass --passphrase`);
+}
+
+secrets
+  .command('encrypt')
+  .description('Encrypt an env file into .env.<environment>.enc')
+  .option('-c, --config <path>', 'Path to configuration file (defaults to deploy.neex.yml)')
+  .option('-e, --environment <environment>', 'Environment the secrets belong to')
+  .option('-i, --input <path>', 'Plaintext env file to encrypt', '.env')
+  .option('--passphrase', 'Use a passphrase instead of the key file')
+  .action(async (options) => {
+    try {
+      const { rootPath, environment, fileConfig, manager } = await loadSecretsContext(options);
+      const inputPath = path.resolve(rootPath, options.input);
+      if (!await fs.pathExists(inputPath)) {
+        throw new Error(`${options.input} not found`);
+      }
+
+      const key = await getSecretsKey(rootPath, fileConfig, manager, options, true);
+      await manager.write(rootPath, environment, key, await fs.readFile(inputPath, 'utf-8'));
+      logger.success(`Encrypted ${options.input} into ${path.basename(getSecretsPath(rootPath, environment))}`);
+    } catch (error: any) {
+      logger.error(`Failed to encrypt secrets: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+secrets
+  .command('decrypt')
+  .description('Print the decrypted secrets, or write them to a file')
+  .option('-c, --config <path>', 'Path to configuration file (defaults to deploy.neex.yml)')
+  .option('-e, --environment <environment>', 'Environment the secrets belong to')
+  .option('-o, --output <path>', 'Write the plaintext to this file instead of stdout')
+  .option('--passphrase', 'Use a passphrase instead of the key file')
+  .action(async (options) => {
+    try {
+      const { rootPath, environment, fileConfig, manager } = await loadSecretsContext(options);
+      const key = await getSecretsKey(rootPath, fileConfig, manager, options, false);
+      const plaintext = (await manager.read(rootPath, environment, key)).toString();
+
+      if (!options.output) {
+        process.stdout.write(plaintext.endsWith('\n') ? plaintext : plaintext + '\n');
+        return;
+      }
+
+      await fs.writeFile(path.resolve(rootPath, options.output), plaintext, { mode: 0o600 });
+      logger.success(`Decrypted secrets written to ${options.output}`);
+      logger.warning('Do not commit this file');
+    } catch (error: any) {
+      logger.error(`Failed to decrypt secrets: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+secrets
+  .command('edit')
+  .description('Edit the secrets in $EDITOR and re-encrypt them')
+  .option('-c, --config <path>', 'Path to configuration file (defaults to deploy.neex.yml)')
+  .option('-e, --environment <environment>', 'Environment the secrets belong to')
+  .option('--passphrase', 'Use a passphrase instead of the key file')
+  .action(async (options) => {
+    let tempDir: string | undefined;
+
+    try {
+      const { rootPath, environment, fileConfig, manager } = await loadSecretsContext(options);
+      const exists = await fs.pathExists(getSecretsPath(rootPath, environment));
+      const key = await getSecretsKey(rootPath, fileConfig, manager, options, !exists);
+      const original = exists ? (await manager.read(rootPath, environment, key)).toString() : '';
+
+      // The plaintext only ever sits in a private temp directory
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'deploy-neex-'));
+      const tempFile = path.join(tempDir, `.env.${environment}`);
+      await fs.writeFile(tempFile, original, { mode: 0o600 });
+
+      const [editor, ...editorArgs] = (process.env.VISUAL || process.env.EDITOR || 'vi').split(/\s+/);
+      await new SystemUtils(logger).executeCommand(editor, [...editorArgs, tempFile]);
+
+      const edited = await fs.readFile(tempFile, 'utf-8');
+      if (edited === original) {
+        logger.info('No changes');
+        return;
+      }
+
+      await manager.write(rootPath, environment, key, edited);
+      logger.success(`Saved ${path.basename(getSecretsPath(rootPath, environment))}`);
+    } catch (error: any) {
+      logger.error(`Failed to edit secrets: ${error.message}`);
+      process.exitCode = 1;
+    } finally {
+      if (tempDir) {
+        await fs.remove(tempDir);
+      }
     }
   });
 
@@ -0,0 +1,271 @@
+// src/config/loader.ts
+import fs from 'fs-extra';
+import path from 'path';
+import { Document, LineCounter, parseDocument } from 'yaml';
+import { DeployConfig } from '../types.js';
+import { getColourPorts } from '../blue-green.js';
+import { Logger } from '../utils/logger.js';
+import { CONFIG_VERSION, SchemaIssue, SchemaPath, deployFileSchema, validateSchema } from './schema.js';
+
+export const CONFIG_FILE_NAMES = ['deploy.neex.yml', 'deploy.neex.yaml', 'deploy.neex.json'];
+
+export interface ConfigIssue extends SchemaIssue {
+    line?: number;
+    column?: number;
+}
+
+export class ConfigValidationError extends Error {
+    readonly filePath: string;
+    readonly issues: ConfigIssue[];
+
+    constructor(filePath: string, issues: ConfigIssue[]) {
+        const details = issues.map(issue => {
+            const location = issue.line ? `${filePath}:${issue.line}:${issue.column}` : filePath;
+            const key = issue.path.length ? `${issue.path.join('.')} ` : '';
+            return `  ${location} ${key}${issue.message}`;
+        });
+        super(`Invalid configuration file:\n${details.join('\n')}`);
+        this.name = 'ConfigValidationError';
+        this.filePath = filePath;
+        this.issues = issues;
+    }
+}
+
+const FILE_HEADER = ' deploy-neex configuration. Commit this file to share deploy settings.\n' +
+    ' Values here override prompts; CLI flags override values here.';
+
+type ConfigLayer = Partial<DeployConfig> | Record<string, any>;
+
+export class ConfigLoader {
+    private logger: Logger;
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    /**
+     * Returns the explicit --config path, or the first deploy.neex.* file
+     * found in the project root, or null when there is none.
+     */
+    async resolvePath(rootPath: string, explicitPath?: string): Promise<string | null> {
+        if (explicitPath) {
+            const resolved = path.resolve(rootPath, explicitPath);
+            if (!await fs.pathExists(resolved)) {
+                throw new Error(`Configuration file not found: ${resolved}`);
+            }
+            return resolved;
+        }
+
+        for (const name of CONFIG_FILE_NAMES) {
+            const candidate = path.join(rootPath, name);
+            if (await fs.pathExists(candidate)) {
+                return candidate;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Parses a YAML or JSON deploy file (JSON is valid YAML, so both go
+     * through the same parser) and validates it against the schema.
+     */
+    async load(filePath: string): Promise<Partial<DeployConfig>> {
+        const source = await fs.readFile(filePath, 'utf-8');
+        const lineCounter = new LineCounter();
+        const doc = parseDocument(source, { lineCounter, prettyErrors: false });
+
+        if (doc.errors.length > 0) {
+            throw new ConfigValidationError(filePath, doc.errors.map(error => {
+                const { line, col } = lineCounter.linePos(error.pos[0]);
+                return { path: [], message: error.message, line, column: col };
+            }));
+        }
+
+        const data = doc.toJS() ?? {};
+        const issues = validateSchema(data, deployFileSchema);
+
+        if (issues.length > 0) {
+            throw new ConfigValidationError(filePath, issues.map(issue => ({
+                ...issue,
+                ...this.locate(doc, lineCounter, issue.path)
+            })));
+        }
+
+        const { version: _version, ...config } = data;
+        this.logger.success(`Loaded configuration from ${path.basename(filePath)}`);
+
+        return config;
+    }
+
+    async save(filePath: string, config: Partial<DeployConfig>): Promise<void> {
+        const doc = new Document({ version: CONFIG_VERSION, ...config });
+        doc.commentBefore = FILE_HEADER;
+
+        const content = filePath.endsWith('.json')
+            ? JSON.stringify({ version: CONFIG_VERSION, ...config }, null, 2) + '\n'
+            : doc.toString();
+
+        await fs.ensureDir(path.dirname(filePath));
+        await fs.writeFile(filePath, content);
+    }
+
+    /**
+     * Sets top-level keys in an existing deploy file, keeping the rest of
+     * the file (including YAML comments) as written. Creates the file when
+     * it does not exist yet.
+     */
+    async update(filePath: string, values: Partial<DeployConfig>): Promise<void> {
+        if (!await fs.pathExists(filePath)) {
+            await this.save(filePath, values);
+            return;
+        }
+
+        const source = await fs.readFile(filePath, 'utf-8');
+
+        if (filePath.endsWith('.json')) {
+            await fs.writeFile(filePath, JSON.stringify({ ...JSON.parse(source), ...values }, null, 2) + '\n');
+            return;
+        }
+
+        const doc = parseDocument(source);
+        for (const [key, value] of Object.entries(values)) {
+            doc.set(key, value);
+        }
+        await fs.writeFile(filePath, doc.toString());
+    }
+
+    /**
+     * Merges configuration layers from lowest to highest precedence. The
+     * deploy command uses: detected defaults < prompt answers < config file
+     * < CLI flags. Nested objects are merged, arrays and scalars replaced.
+     */
+    merge<T extends ConfigLayer>(...layers: ConfigLayer[]): T {
+        return layers.reduce<Record<string, any>>((merged, layer) => mergeObjects(merged, layer), {}) as T;
+    }
+
+    validate(config: DeployConfig): void {
+        const issues = validateSchema({ version: CONFIG_VERSION, ...config }, deployFileSchema);
+
+        if (config.ssl && (config.certificate?.source ?? 'certbot') === 'certbot' && !config.email) {
+            issues.push({ path: ['email'], message: 'is required for certbot certificates' });
+        }
+        if (config.ssl && config.certificate?.source === 'custom' &&
+            (!config.certificate.certificate || !config.certificate.certificateKey)) {
+            issues.push({ path: ['certificate'], message: 'needs certificate and certificateKey paths for custom certificates' });
+        }
+
+        for (const [hook, entries] of Object.entries(config.hooks ?? {})) {
+            (entries ?? []).forEach((entry, index) => {
+                if (typeof entry !== 'string' && Boolean(entry.run) === Boolean(entry.module)) {
+                    issues.push({ path: ['hooks', hook, index], message: 'needs exactly one of run or module' });
+                }
+            });
+        }
+
+        if (config.target === 'docker' && config.releases) {
+            issues.push({ path: ['releases'], message: 'is not supported with target docker, where every deploy builds new images' });
+        }
+
+        if (config.remote?.host || config.hosts?.length) {
+            for (const [hook, entries] of Object.entries(config.hooks ?? {})) {
+                (entries ?? []).forEach((entry, index) => {
+                    if (typeof entry !== 'string' && entry.module) {
+                        issues.push({ path: ['hooks', hook, index], message: 'module hooks run inside deploy-neex and cannot run on a remote host; use run' });
+                    }
+                });
+            }
+            if (config.remote?.sync === 'artifact' && config.target === 'docker') {
+                issues.push({ path: ['remote', 'sync'], message: 'artifact is not supported with target docker, where the images are built on the server' });
+            }
+            if (config.remote?.sync === 'artifact' && config.git?.ref) {
+                issues.push({ path: ['git', 'ref'], message: 'cannot be combined with remote.sync artifact, which uploads the build of the working tree' });
+            }
+        }
+
+        if (config.hosts?.length) {
+            if (config.target === 'docker') {
+                issues.push({ path: ['hosts'], message: 'is not supported with target docker' });
+            }
+            if (config.clientMode === 'static' && config.nginxConfig) {
+                issues.push({ path: ['hosts'], message: 'cannot be used with clientMode static, whose files Nginx would serve from its own disk' });
+            }
+            const method = config.nginx?.upstream?.method;
+            if ((method === 'ip_hash' || method === 'random') && config.hosts.some(node => node.backup)) {
+                issues.push({ path: ['nginx', 'upstream', 'method'], message: `${method} does not support backup hosts` });
+            }
+        }
+
+        if (config.blueGreen) {
+            if (!config.releases) {
+                issues.push({ path: ['blueGreen'], message: 'needs releases, so that each colour runs from a build of its own' });
+            }
+            if (!config.nginxConfig) {
+                issues.push({ path: ['blueGreen'], message: 'needs Nginx, which switches traffic between the colours' });
+            }
+            if (config.target === 'docker' || config.hosts?.length) {
+                issues.push({ path: ['blueGreen'], message: `is not supported with ${config.target === 'docker' ? 'target docker' : 'hosts'}` });
+            }
+
+            const green = getColourPorts(config, 'green');
+            for (const role of ['client', 'server'] as const) {
+                if (green[role] > 65535) {
+                    issues.push({ path: ['blueGreen', 'ports', role], message: `is required, since ${green[role]} is above 65535` });
+                } else if ([config.clientPort, config.serverPort].includes(green[role])) {
+                    issues.push({ path: ['blueGreen', 'ports', role], message: `${green[role]} is already used by blue` });
+                }
+            }
+            if (green.client === green.server) {
+                issues.push({ path: ['blueGreen', 'ports'], message: 'client and server must differ' });
+            }
+        }
+
+        const zones = Object.keys(config.nginx?.rateLimits ?? {});
+        const rateLimited: Array<[SchemaPath, string | undefined]> = [
+            [['nginx', 'api', 'rateLimit', 'zone'], config.nginx?.api?.rateLimit?.zone],
+            ...(config.nginx?.locations ?? []).map((location, index): [SchemaPath, string | undefined] =>
+                [['nginx', 'locations', index, 'rateLimit', 'zone'], location.rateLimit?.zone])
+        ];
+        for (const [zonePath, zone] of rateLimited) {
+            if (zone && !zones.includes(zone)) {
+                issues.push({ path: zonePath, message: `refers to '${zone}', which is not defined in nginx.rateLimits` });
+            }
+        }
+
+        if (issues.length > 0) {
+            throw new ConfigValidationError('resolved configuration', issues);
+        }
+    }
+
+    private locate(doc: Document, lineCounter: LineCounter, issuePath: SchemaPath): { line?: number; column?: number } {
+        // Missing keys have no node of their own; fall back to the closest parent.
+        for (let depth = issuePath.length; depth >= 0; depth--) {
+            const node = depth === 0 ? doc.contents : doc.getIn(issuePath.slice(0, depth), true);
+            const offset = (node as { range?: [number, number, number] } | null)?.range?.[0];
+
+            if (offset !== undefined) {
+                const { line, col } = lineCounter.linePos(offset);
+                return { line, column: col };
+            }
+        }
+
+        return {};
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeObjects(base: Record<string, any>, layer: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = { ...base };
+
+    for (const [key, value] of Object.entries(layer)) {
+        if (value === undefined) continue;
+        result[key] = isPlainObject(value) && isPlainObject(result[key])
+            ? mergeObjects(result[key], value)
+            : value;
+    }
+
+    return result;
+}
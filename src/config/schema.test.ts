@@ -0,0 +1,77 @@
+// src/config/schema.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { deployFileSchema, describeSchema, SchemaNode, validateSchema } from './schema.js';
+
+describe('validateSchema', () => {
+    it('accepts a minimal deploy file', () => {
+        assert.deepEqual(validateSchema({ version: 1 }, deployFileSchema), []);
+    });
+
+    it('requires the version and rejects other versions', () => {
+        assert.deepEqual(validateSchema({}, deployFileSchema), [{ path: ['version'], message: 'is required' }]);
+        assert.deepEqual(validateSchema({ version: 2 }, deployFileSchema), [{ path: ['version'], message: 'must be 1' }]);
+    });
+
+    it('reports unknown options with their path', () => {
+        assert.deepEqual(validateSchema({ version: 1, remote: { hots: 'example.com' } }, deployFileSchema), [
+            { path: ['remote', 'hots'], message: 'is not a known option' }
+        ]);
+    });
+
+    it('reports type mismatches, enums and patterns', () => {
+        const issues = validateSchema({
+            version: 1,
+            ssl: 'yes',
+            processManager: 'forever',
+            projectName: 'my app',
+            hosts: [{ host: 'a.example.com' }, { host: 'b.example.com', weight: 1.5 }]
+        }, deployFileSchema);
+
+        assert.deepEqual(issues, [
+            { path: ['ssl'], message: 'expected boolean, got string' },
+            { path: ['processManager'], message: "must be one of 'pm2' | 'systemd'" },
+            { path: ['projectName'], message: 'can only contain letters, numbers, hyphens, and underscores' },
+            { path: ['hosts', 1, 'weight'], message: 'must be an integer' }
+        ]);
+    });
+
+    it('checks number bounds', () => {
+        const port: SchemaNode = { type: 'number', integer: true, min: 1, max: 65535 };
+        assert.deepEqual(validateSchema(0, port), [{ path: [], message: 'must be at least 1' }]);
+        assert.deepEqual(validateSchema(70000, port), [{ path: [], message: 'must be at most 65535' }]);
+        assert.deepEqual(validateSchema(Number.NaN, port), [{ path: [], message: 'expected number, got number' }]);
+    });
+
+    it('validates every value of a record', () => {
+        const issues = validateSchema({ version: 1, apps: { server: { env: { PORT: 3000 } } } }, deployFileSchema);
+        assert.deepEqual(issues, [{ path: ['apps', 'server', 'env', 'PORT'], message: 'expected string, got number' }]);
+    });
+
+    it('accepts any option of a oneOf', () => {
+        const hooks = { preBuild: ['npm run lint', { run: 'npm test', timeout: 60 }] };
+        assert.deepEqual(validateSchema({ version: 1, hooks }, deployFileSchema), []);
+
+        assert.deepEqual(validateSchema({ version: 1, hooks: { preBuild: [42] } }, deployFileSchema), [
+            { path: ['hooks', 'preBuild', 0], message: 'expected string | object' }
+        ]);
+    });
+
+    it('tells null and arrays apart from objects', () => {
+        assert.deepEqual(validateSchema({ version: 1, remote: null }, deployFileSchema), [
+            { path: ['remote'], message: 'expected object, got null' }
+        ]);
+        assert.deepEqual(validateSchema({ version: 1, remote: [] }, deployFileSchema), [
+            { path: ['remote'], message: 'expected object, got array' }
+        ]);
+    });
+});
+
+describe('describeSchema', () => {
+    it('describes enums, lists and alternatives', () => {
+        assert.equal(describeSchema({ type: 'string', enum: ['a', 'b'] }), "'a' | 'b'");
+        assert.equal(describeSchema({ type: 'array', items: { type: 'number' } }), 'number[]');
+        assert.equal(describeSchema({ type: 'oneOf', options: [{ type: 'string' }, { type: 'boolean' }] }), 'string | boolean');
+        assert.equal(describeSchema({ type: 'record', values: { type: 'string' } }), 'mapping');
+    });
+});
@@ -0,0 +1,477 @@
+// src/config/schema.ts
+
+export type SchemaNode =
+    | { type: 'string'; enum?: readonly string[]; pattern?: RegExp; patternMessage?: string }
+    | { type: 'number'; integer?: boolean; min?: number; max?: number }
+    | { type: 'boolean' }
+    | { type: 'array'; items: SchemaNode }
+    | { type: 'object'; properties: Record<string, SchemaNode>; required?: string[] }
+    | { type: 'record'; values: SchemaNode }
+    | { type: 'oneOf'; options: SchemaNode[] };
+
+export type SchemaPath = (string | number)[];
+
+export interface SchemaIssue {
+    path: SchemaPath;
+    message: string;
+}
+
+const port: SchemaNode = { type: 'number', integer: true, min: 1, max: 65535 };
+
+const sshHost: SchemaNode = { type: 'string', pattern: /^([^\s@]+@)?[^\s@]+$/, patternMessage: 'must be a host or user@host' };
+
+const memorySize: SchemaNode = { type: 'string', pattern: /^\d+[KMG]$/, patternMessage: 'must be a size like 512M or 1G' };
+
+export const FRAMEWORKS = ['nextjs', 'vite', 'remix', 'express', 'fastify', 'nestjs'] as const;
+
+export const MIGRATION_TOOLS = ['prisma', 'drizzle', 'knex'] as const;
+
+const app: SchemaNode = {
+    type: 'object',
+    properties: {
+        path: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+        framework: { type: 'string', enum: FRAMEWORKS },
+        outputDir: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+        instances: {
+            type: 'oneOf',
+            options: [{ type: 'number', integer: true, min: 1 }, { type: 'string', enum: ['max'] }]
+        },
+        execMode: { type: 'string', enum: ['fork', 'cluster'] },
+        maxMemory: memorySize,
+        nodeArgs: { type: 'array', items: { type: 'string' } },
+        killTimeout: { type: 'number', integer: true, min: 0 },
+        waitReady: { type: 'boolean' },
+        listenTimeout: { type: 'number', integer: true, min: 0 },
+        cronRestart: { type: 'string' },
+        env: { type: 'record', values: { type: 'string' } }
+    }
+};
+
+const healthCheck: SchemaNode = {
+    type: 'object',
+    properties: {
+        enabled: { type: 'boolean' },
+        path: { type: 'string', pattern: /^\//, patternMessage: 'must start with /' },
+        expectedStatus: { type: 'number', integer: true, min: 100, max: 599 },
+        bodyMatch: { type: 'string' },
+        timeout: { type: 'number', integer: true, min: 1 },
+        retries: { type: 'number', integer: true, min: 0 },
+        backoff: { type: 'number', integer: true, min: 0 }
+    }
+};
+
+const nginxSize: SchemaNode = { type: 'string', pattern: /^\d+[kKmMgG]?$/, patternMessage: 'must be a size like 10M or 512k' };
+
+const nginxLocationOptions: Record<string, SchemaNode> = {
+    websocket: { type: 'boolean' },
+    sse: { type: 'boolean' },
+    timeout: { type: 'number', integer: true, min: 1 },
+    rateLimit: {
+        type: 'object',
+        required: ['zone'],
+        properties: {
+            zone: { type: 'string', pattern: /^\w+$/, patternMessage: 'must be a rateLimits name' },
+            burst: { type: 'number', integer: true, min: 0 },
+            nodelay: { type: 'boolean' }
+        }
+    },
+    basicAuth: {
+        type: 'object',
+        required: ['userFile'],
+        properties: {
+            userFile: { type: 'string', pattern: /^\//, patternMessage: 'must be an absolute path' },
+            realm: { type: 'string' }
+        }
+    },
+    maxBodySize: nginxSize
+};
+
+const sourceList: SchemaNode = { type: 'array', items: { type: 'string', pattern: /^\S+$/, patternMessage: 'must be a single source' } };
+
+const securityHeaders: SchemaNode = {
+    type: 'object',
+    properties: {
+        profile: { type: 'string', enum: ['strict', 'default', 'legacy'] },
+        csp: {
+            type: 'oneOf',
+            options: [
+                { type: 'boolean' },
+                { type: 'record', values: { type: 'oneOf', options: [sourceList, { type: 'boolean' }] } }
+            ]
+        },
+        cspReportOnly: { type: 'boolean' },
+        hsts: {
+            type: 'oneOf',
+            options: [
+                { type: 'boolean' },
+                {
+                    type: 'object',
+                    properties: {
+                        maxAge: { type: 'number', integer: true, min: 0 },
+                        includeSubDomains: { type: 'boolean' },
+                        preload: { type: 'boolean' }
+                    }
+                }
+            ]
+        },
+        permissionsPolicy: {
+            type: 'oneOf',
+            options: [{ type: 'boolean' }, { type: 'record', values: sourceList }]
+        },
+        crossOriginOpenerPolicy: {
+            type: 'oneOf',
+            options: [{ type: 'boolean' }, { type: 'string', enum: ['same-origin', 'same-origin-allow-popups', 'unsafe-none'] }]
+        },
+        crossOriginEmbedderPolicy: {
+            type: 'oneOf',
+            options: [{ type: 'boolean' }, { type: 'string', enum: ['require-corp', 'credentialless', 'unsafe-none'] }]
+        }
+    }
+};
+
+const nginx: SchemaNode = {
+    type: 'object',
+    properties: {
+        api: {
+            type: 'object',
+            properties: {
+                prefix: { type: 'string', pattern: /^\/\S*$/, patternMessage: 'must start with /' },
+                stripPrefix: { type: 'boolean' },
+                ...nginxLocationOptions
+            }
+        },
+        clientMaxBodySize: nginxSize,
+        headers: securityHeaders,
+        rateLimits: {
+            type: 'record',
+            values: {
+                type: 'object',
+                required: ['rate'],
+                properties: {
+                    rate: { type: 'string', pattern: /^\d+r\/[sm]$/, patternMessage: 'must be a rate like 10r/s or 60r/m' },
+                    size: nginxSize,
+                    key: { type: 'string', pattern: /^\$\w+$/, patternMessage: 'must be an Nginx variable like $binary_remote_addr' }
+                }
+            }
+        },
+        upstream: {
+            type: 'object',
+            properties: {
+                method: { type: 'string', enum: ['round-robin', 'least_conn', 'ip_hash', 'random'] },
+                keepalive: { type: 'number', integer: true, min: 1 },
+                maxFails: { type: 'number', integer: true, min: 0 },
+                failTimeout: { type: 'string', pattern: /^\d+(ms|s|m|h)?$/, patternMessage: 'must be a time like 10s or 1m' }
+            }
+        },
+        locations: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['path', 'proxy'],
+                properties: {
+                    path: { type: 'string', pattern: /^\/\S*$/, patternMessage: 'must start with /' },
+                    proxy: {
+                        type: 'string',
+                        pattern: /^(client|server|https?:\/\/\S+)$/,
+                        patternMessage: "must be 'client', 'server' or an http(s) URL"
+                    },
+                    stripPrefix: { type: 'boolean' },
+                    ...nginxLocationOptions
+                }
+            }
+        }
+    }
+};
+
+const hookList: SchemaNode = {
+    type: 'array',
+    items: {
+        type: 'oneOf',
+        options: [
+            { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+            {
+                type: 'object',
+                properties: {
+                    run: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+                    module: { type: 'string', pattern: /\.[cm]?[jt]s$/, patternMessage: 'must be a .js or .ts file' },
+                    timeout: { type: 'number', integer: true, min: 1 },
+                    cwd: { type: 'string' }
+                }
+            }
+        ]
+    }
+};
+
+export const CONFIG_VERSION = 1;
+
+/**
+ * Shape of deploy.neex.yml. Every DeployConfig key is optional in the file;
+ * whatever is missing comes from CLI flags, prompts or detected defaults.
+ */
+export const deployFileSchema: SchemaNode = {
+    type: 'object',
+    required: ['version'],
+    properties: {
+        version: { type: 'number', integer: true, min: CONFIG_VERSION, max: CONFIG_VERSION },
+        projectName: {
+            type: 'string',
+            pattern: /^[a-zA-Z0-9-_]+$/,
+            patternMessage: 'can only contain letters, numbers, hyphens, and underscores'
+        },
+        domain: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+        ssl: { type: 'boolean' },
+        email: {
+            type: 'string',
+            pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+            patternMessage: 'must be a valid email address'
+        },
+        certificate: {
+            type: 'object',
+            properties: {
+                source: { type: 'string', enum: ['certbot', 'custom', 'self-signed'] },
+                certificate: { type: 'string' },
+                certificateKey: { type: 'string' },
+                trustedCertificate: { type: 'string' },
+                webroot: { type: 'string' },
+                acmeServer: { type: 'string', pattern: /^https?:\/\//, patternMessage: 'must be an http(s) URL' },
+                acmeCaBundle: { type: 'string' },
+                includeWww: { type: 'boolean' }
+            }
+        },
+        clientPort: port,
+        serverPort: port,
+        packageManager: { type: 'string', enum: ['npm', 'yarn', 'pnpm', 'bun'] },
+        environment: { type: 'string', enum: ['production', 'staging'] },
+        autoStart: { type: 'boolean' },
+        nginxConfig: { type: 'boolean' },
+        nginx,
+        apps: {
+            type: 'object',
+            properties: { client: app, server: app }
+        },
+        clientMode: { type: 'string', enum: ['server', 'static'] },
+        target: { type: 'string', enum: ['host', 'docker'] },
+        docker: {
+            type: 'object',
+            properties: {
+                nodeImage: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+                nginxImage: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+                composeFile: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+                restart: { type: 'string', enum: ['always', 'unless-stopped', 'on-failure', 'no'] }
+            }
+        },
+        remote: {
+            type: 'object',
+            properties: {
+                host: sshHost,
+                port,
+                identityFile: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+                path: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+                sync: { type: 'string', enum: ['source', 'artifact'] }
+            }
+        },
+        hosts: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['host'],
+                properties: {
+                    host: sshHost,
+                    port,
+                    identityFile: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+                    address: { type: 'string', pattern: /^\S+$/, patternMessage: 'must be a host name or IP address' },
+                    weight: { type: 'number', integer: true, min: 1 },
+                    backup: { type: 'boolean' }
+                }
+            }
+        },
+        processManager: { type: 'string', enum: ['pm2', 'systemd'] },
+        systemd: {
+            type: 'object',
+            properties: {
+                user: { type: 'string' },
+                group: { type: 'string' },
+                unitDir: { type: 'string' },
+                restart: { type: 'string', enum: ['always', 'on-failure'] },
+                memoryMax: memorySize
+            }
+        },
+        releases: {
+            type: 'object',
+            required: ['path'],
+            properties: {
+                path: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+                keep: { type: 'number', integer: true, min: 1 },
+                shared: { type: 'array', items: { type: 'string' } }
+            }
+        },
+        git: {
+            type: 'object',
+            properties: {
+                ref: { type: 'string', pattern: /^\S+$/, patternMessage: 'must be a branch, tag or commit' },
+                allowDirty: { type: 'boolean' }
+            }
+        },
+        blueGreen: {
+            type: 'object',
+            properties: {
+                ports: {
+                    type: 'object',
+                    properties: { client: port, server: port }
+                },
+                keepWarm: { type: 'number', integer: true, min: 0 }
+            }
+        },
+        healthCheck: {
+            type: 'object',
+            properties: {
+                client: healthCheck,
+                server: healthCheck,
+                viaNginx: { type: 'boolean' }
+            }
+        },
+        dotenv: {
+            type: 'object',
+            properties: {
+                example: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+                schema: {
+                    type: 'record',
+                    values: {
+                        type: 'object',
+                        properties: {
+                            type: { type: 'string', enum: ['string', 'number', 'boolean', 'url', 'port', 'email'] },
+                            required: { type: 'boolean' },
+                            pattern: { type: 'string' }
+                        }
+                    }
+                }
+            }
+        },
+        secrets: {
+            type: 'object',
+            properties: {
+                keyFile: { type: 'string', pattern: /\S/, patternMessage: 'must not be empty' },
+                runtimeFile: { type: 'string', pattern: /^\//, patternMessage: 'must be an absolute path' },
+                writeDotenv: { type: 'boolean' }
+            }
+        },
+        hooks: {
+            type: 'object',
+            properties: {
+                preBuild: hookList,
+                postBuild: hookList,
+                preStart: hookList,
+                postDeploy: hookList,
+                onFailure: hookList
+            }
+        },
+        migrations: {
+            type: 'object',
+            properties: {
+                enabled: { type: 'boolean' },
+                tool: { type: 'string', enum: MIGRATION_TOOLS },
+                timeout: { type: 'number', integer: true, min: 1 }
+            }
+        }
+    }
+};
+
+export function describeSchema(schema: SchemaNode): string {
+    switch (schema.type) {
+        case 'string':
+            return schema.enum ? schema.enum.map(value => `'${value}'`).join(' | ') : 'string';
+        case 'array':
+            return `${describeSchema(schema.items)}[]`;
+        case 'record':
+            return 'mapping';
+        case 'oneOf':
+            return schema.options.map(describeSchema).join(' | ');
+        default:
+            return schema.type;
+    }
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeOf(value) === 'object';
+}
+
+export function validateSchema(value: unknown, schema: SchemaNode, path: SchemaPath = []): SchemaIssue[] {
+    const mismatch = (): SchemaIssue[] => [{
+        path,
+        message: `expected ${describeSchema(schema)}, got ${typeOf(value)}`
+    }];
+
+    switch (schema.type) {
+        case 'string': {
+            if (typeof value !== 'string') return mismatch();
+            if (schema.enum && !schema.enum.includes(value)) {
+                return [{ path, message: `must be one of ${describeSchema(schema)}` }];
+            }
+            if (schema.pattern && !schema.pattern.test(value)) {
+                return [{ path, message: schema.patternMessage || `must match ${schema.pattern}` }];
+            }
+            return [];
+        }
+
+        case 'number': {
+            if (typeof value !== 'number' || Number.isNaN(value)) return mismatch();
+            if (schema.integer && !Number.isInteger(value)) {
+                return [{ path, message: 'must be an integer' }];
+            }
+            if (schema.min !== undefined && value < schema.min) {
+                return [{ path, message: schema.min === schema.max ? `must be ${schema.min}` : `must be at least ${schema.min}` }];
+            }
+            if (schema.max !== undefined && value > schema.max) {
+                return [{ path, message: schema.min === schema.max ? `must be ${schema.max}` : `must be at most ${schema.max}` }];
+            }
+            return [];
+        }
+
+        case 'boolean':
+            return typeof value === 'boolean' ? [] : mismatch();
+
+        case 'array': {
+            if (!Array.isArray(value)) return mismatch();
+            return value.flatMap((item, index) => validateSchema(item, schema.items, [...path, index]));
+        }
+
+        case 'record': {
+            if (!isPlainObject(value)) return mismatch();
+            return Object.entries(value).flatMap(([key, item]) => validateSchema(item, schema.values, [...path, key]));
+        }
+
+        case 'object': {
+            if (!isPlainObject(value)) return mismatch();
+            const issues: SchemaIssue[] = [];
+
+            for (const key of schema.required || []) {
+                if (value[key] === undefined) {
+                    issues.push({ path: [...path, key], message: 'is required' });
+                }
+            }
+
+            for (const [key, item] of Object.entries(value)) {
+                const property = schema.properties[key];
+                if (!property) {
+                    issues.push({ path: [...path, key], message: 'is not a known option' });
+                } else if (item !== undefined) {
+                    issues.push(...validateSchema(item, property, [...path, key]));
+                }
+            }
+
+            return issues;
+        }
+
+        case 'oneOf': {
+            const attempts = schema.options.map(option => validateSchema(value, option, path));
+            if (attempts.some(issues => issues.length === 0)) return [];
+            return [{ path, message: `expected ${describeSchema(schema)}` }];
+        }
+    }
+}
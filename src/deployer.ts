@@ -1,57 +1,535 @@
 // src/deployer.ts
-import { DeployConfig, NeexProject } from './types.js';
+import chalk from 'chalk';
+import path from 'path';
+import { AppRole, Colour, DeployConfig, HealthCheckConfig, HostConfig, NeexProject } from './types.js';
 import { Logger } from './utils/logger.js';
 import { SystemUtils } from './utils/system.js';
-import { PM2Generator } from './generators/pm2.js';
-import { NginxGenerator } from './generators/nginx.js';
+import { Transport } from './utils/transport.js';
+import { unifiedDiff } from './utils/diff.js';
+import { ProcessManager, createProcessManager, getAppNames, hasClientProcess } from './generators/process-manager.js';
+import { resolveStaticOutput } from './generators/entry.js';
+import { DockerComposeGenerator, getComposeCommand } from './generators/docker.js';
+import { NginxGenerator, NginxValidationError, getApiRoute, getUpstreamNodes } from './generators/nginx.js';
+import { ReleaseManager } from './releases.js';
+import { DEFAULT_HEALTH_CHECK, HealthChecker, HealthTarget } from './health.js';
+import { EnvFile, EnvManager, EnvValidationError } from './env.js';
+import { SecretsManager } from './secrets.js';
+import { HookRunner } from './hooks.js';
+import { MigrationRunner } from './migrations.js';
+import { TemplateRenderer } from './templates.js';
+import { ProjectSync, getRemoteTarget, openTransport } from './remote.js';
+import { BlueGreenManager, DEFAULT_KEEP_WARM, getColourConfig, getOtherColour } from './blue-green.js';
+import { GitSource } from './git.js';
+import { DeploymentHistory, DeploymentKind } from './state.js';
+
+// Which health check targets to probe: the apps' own ports, through Nginx, or both
+type CheckScope = 'all' | 'direct' | 'nginx';
+
+function getAppRoles(config: DeployConfig, project: NeexProject): AppRole[] {
+    const roles: AppRole[] = [];
+    if (hasClientProcess(config, project)) roles.push('client');
+    if (project.hasServer) roles.push('server');
+    return roles;
+}
 
 export class Deployer {
     private logger: Logger;
     private system: SystemUtils;
-    private pm2: PM2Generator;
     private nginx: NginxGenerator;
-
-    constructor() {
+    private releases: ReleaseManager;
+    private health: HealthChecker;
+    private env: EnvManager;
+    private secrets: SecretsManager;
+    private hooks: HookRunner;
+    private migrations: MigrationRunner;
+    private templates: TemplateRenderer;
+    private sync: ProjectSync;
+    private blueGreen: BlueGreenManager;
+    private git: GitSource;
+    private history: DeploymentHistory;
+    private nginxReady = false;
+
+    // Without a transport everything happens on this machine
+    constructor(transport?: Transport) {
         this.logger = new Logger();
-        this.system = new SystemUtils(this.logger);
-        this.pm2 = new PM2Generator(this.logger, this.system);
+        this.system = new SystemUtils(this.logger, transport);
         this.nginx = new NginxGenerator(this.logger, this.system);
+        this.releases = new ReleaseManager(this.logger, this.system);
+        this.health = new HealthChecker(this.logger, this.system);
+        this.env = new EnvManager(this.logger, this.system);
+        this.secrets = new SecretsManager(this.logger, this.system);
+        this.hooks = new HookRunner(this.logger, this.system);
+        this.migrations = new MigrationRunner(this.logger, this.system);
+        this.templates = new TemplateRenderer(this.logger, this.system);
+        this.sync = new ProjectSync(this.logger, this.system);
+        this.blueGreen = new BlueGreenManager(this.logger, this.system);
+        this.git = new GitSource(this.logger, this.system);
+        this.history = new DeploymentHistory(this.logger, this.system);
     }
 
     async deploy(config: DeployConfig, project: NeexProject): Promise<void> {
-        this.logger.info(`🚀 Starting deployment of ${config.projectName}`);
+        const target = this.getTarget(await this.git.prepare(config, project, this.exportsRef(config)), project);
+        this.logger.info(`🚀 Starting deployment of ${config.projectName}${this.system.isRemote() ? ` to ${config.remote?.host}` : ''}`);
+
+        try {
+            await this.recordRun('deploy', target.config, () => this.runPipeline(target.config, target.project, project));
+
+            this.logger.success(`🎉 Deployment completed successfully!`);
+            const live = target.config.blueGreen && target.config.releases ? await this.blueGreen.getLive(target.config.releases) : null;
+            this.printPostDeploymentInfo(live ? getColourConfig(target.config, live) : target.config, target.project);
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.logger.error(`Deployment failed: ${errorMessage}`);
+            await this.hooks.run('onFailure', target.config, target.project, error instanceof Error ? error : new Error(errorMessage));
+            throw error;
+        } finally {
+            await this.git.restore();
+        }
+    }
+
+    /**
+     * Runs the deployment pipeline in dry-run mode and prints the files it
+     * would write (as diffs against disk) and the commands it would run.
+     */
+    async plan(config: DeployConfig, project: NeexProject): Promise<void> {
+        this.system.enableDryRun();
+        this.logger.setQuiet(true);
 
         try {
-            // Step 1: Prerequisites
-            await this.checkPrerequisites(project);
+            const target = this.getTarget(await this.git.prepare(config, project, this.exportsRef(config)), project);
+            await this.runPipeline(target.config, target.project, project);
+        } finally {
+            await this.git.restore();
+            this.logger.setQuiet(false);
+        }
+
+        await this.printPlan(config);
+    }
+
+    /**
+     * Re-points `current` at an earlier release (the one before the active
+     * release by default) and reloads the apps from it.
+     */
+    async rollback(localConfig: DeployConfig, localProject: NeexProject, target?: string): Promise<void> {
+        const { config, project } = this.getTarget(localConfig, localProject);
+        if (!config.releases) {
+            throw new Error('Releases are not configured. Add a releases section to deploy.neex.yml');
+        }
 
-            // Step 2: Build project
-            await this.buildProject(project);
+        const releases = await this.releases.list(config.releases);
+        const active = await this.releases.getActive(config.releases);
+        const name = target ?? releases[releases.indexOf(active ?? '') - 1];
 
-            // Step 3: Generate environment file
-            await this.generateEnvironment(config, project);
+        if (!name) {
+            throw new Error('No previous release to roll back to');
+        }
+        if (!releases.includes(name)) {
+            throw new Error(`Release ${name} not found. Available: ${releases.join(', ') || 'none'}`);
+        }
+        if (name === active) {
+            this.logger.info(`Release ${name} is already active`);
+            return;
+        }
 
-            // Step 4: Setup PM2
-            await this.setupPM2(config, project);
+        await this.recordRun('rollback', config, async () => {
+            const releases = config.releases!;
+            this.logger.step(`Rolling back to release ${name}...`);
 
-            // Step 5: Setup Nginx (if requested)
-            if (config.nginxConfig) {
-                await this.setupNginx(config, project);
+            if (config.blueGreen) {
+                await this.promote(config, project, name);
+                await this.releases.prune(releases, await this.blueGreen.getReleases(releases));
+            } else {
+                await this.releases.activate(releases, name);
+                await this.getProcessManager(config).reload(config, this.releases.getCurrentProject(releases, project));
+                await this.releases.prune(releases);
             }
+        });
+
+        this.logger.success(`Rolled back to release ${name}`);
+    }
 
-            // Step 6: Create management scripts
-            await this.createManagementScripts(config, project);
+    /**
+     * Sends traffic back to the colour that is not live. While that colour
+     * is still kept warm this only rewrites the Nginx upstreams; after that
+     * it is started from its release and health-checked first.
+     */
+    async switchColour(localConfig: DeployConfig, localProject: NeexProject): Promise<void> {
+        const { config, project } = this.getTarget(localConfig, localProject);
+        if (!config.blueGreen || !config.releases) {
+            throw new Error('Blue/green deploys are not configured. Add a blueGreen section to deploy.neex.yml');
+        }
+
+        const live = await this.blueGreen.getLive(config.releases);
+        if (!live) {
+            throw new Error('No colour is live yet. Deploy first');
+        }
+
+        const colour = getOtherColour(live);
+        const release = await this.blueGreen.getRelease(config.releases, colour);
+        if (!release || !(await this.releases.list(config.releases)).includes(release)) {
+            throw new Error(`${colour} has no release to switch to`);
+        }
+
+        await this.recordRun('switch', config, async () => {
+            this.logger.step(`Switching from ${live} to ${colour} (release ${release})...`);
+            await this.promote(config, project, release);
+        });
+        this.logger.success(`Switched to ${colour}`);
+    }
+
+    // Releases and uploads take `git.ref` straight from the repository; anything else checks it out
+    private exportsRef(config: DeployConfig): boolean {
+        return this.system.isRemote() || Boolean(config.hosts?.length) || Boolean(config.releases);
+    }
+
+    /**
+     * Runs `task` as an entry in the deployment history on the target,
+     * along with the release and colour it left live.
+     */
+    private async recordRun(kind: DeploymentKind, config: DeployConfig, task: () => Promise<void>): Promise<void> {
+        await this.history.record(kind, config, task, async () => {
+            if (!config.releases) return {};
+            return {
+                release: await this.releases.getActive(config.releases) ?? undefined,
+                colour: config.blueGreen ? await this.blueGreen.getLive(config.releases) ?? undefined : undefined
+            };
+        });
+    }
+
+    /**
+     * Over SSH the pipeline works on the project's copy on the server;
+     * locally it is the project itself.
+     */
+    private getTarget(config: DeployConfig, project: NeexProject): { config: DeployConfig; project: NeexProject } {
+        return this.system.isRemote() ? getRemoteTarget(config, project, this.system.getHomeDir()) : { config, project };
+    }
+
+    /**
+     * `source` is the project deploy-neex was started in, which differs
+     * from `project` when deploying over SSH.
+     */
+    private async runPipeline(config: DeployConfig, project: NeexProject, source: NeexProject): Promise<void> {
+        if (config.hosts?.length) {
+            await this.runRollout(config, project, source);
+            return;
+        }
+
+        // Step 0: Upload the project when the server is another machine
+        if (this.system.isRemote()) {
+            await this.sync.upload(config, source, project.rootPath);
+        }
+
+        if (config.target === 'docker') {
+            await this.runContainerPipeline(config, project, source);
+            return;
+        }
+
+        // Step 1: Prerequisites
+        await this.checkPrerequisites(project);
+
+        // Step 2: Check the environment file (in a fresh release directory when releases are enabled);
+        // builds read it too, so this comes first
+        // An upload already holds just the exported ref
+        const exportSha = !this.system.isRemote() && config.git?.ref ? config.revision?.sha : undefined;
+        const release = config.releases ? await this.releases.create(config.releases, project, exportSha) : null;
+        const runtimeEnv = await this.prepareEnvironment(config, release ? release.project : project, source);
+
+        // Step 3: Build project
+        const buildProject = release ? release.project : project;
+        await this.hooks.run('preBuild', config, buildProject);
+        await this.buildProject(config, buildProject);
+        await this.hooks.run('postBuild', config, buildProject);
+        await this.checkStaticOutput(config, buildProject);
+
+        // Step 4: Database migrations; a failure stops here, before the new build is started
+        await this.migrations.run(config, buildProject, runtimeEnv);
+
+        // Migrations and the like run against the new build before anything is switched or started
+        await this.hooks.run('preStart', config, buildProject);
+
+        if (!release || !config.releases) {
+            await this.startServices(config, project);
+            await this.hooks.run('postDeploy', config, project);
+            return;
+        }
+
+        if (config.blueGreen) {
+            // Step 5: Start the new build as the idle colour and send traffic to it once it is healthy
+            await this.promote(config, project, release.name);
+            await this.releases.prune(config.releases, await this.blueGreen.getReleases(config.releases));
+            await this.hooks.run('postDeploy', config, this.releases.getCurrentProject(config.releases, project));
+            return;
+        }
 
-            // Step 7: Final checks
+        // Step 5: Switch `current` to the new build, going back if it does not come up
+        const previous = await this.releases.getActive(config.releases);
+        const currentProject = this.releases.getCurrentProject(config.releases, project);
+        await this.releases.activate(config.releases, release.name);
+
+        try {
+            await this.startServices(config, currentProject);
+        } catch (error) {
+            if (previous && !this.system.isDryRun()) {
+                this.logger.warning(`Restoring previous release ${previous}`);
+                await this.releases.activate(config.releases, previous);
+                await this.getProcessManager(config).reload(config, currentProject).catch(() => {
+                    this.logger.error('Could not reload the apps with the previous release');
+                });
+            }
+            throw error;
+        }
+
+        await this.releases.prune(config.releases);
+        await this.hooks.run('postDeploy', config, currentProject);
+    }
+
+    /**
+     * The docker target installs and builds inside the images, so the host
+     * only needs Docker. Migrations run in a one-off server container
+     * before the stack is started or updated.
+     */
+    private async runContainerPipeline(config: DeployConfig, project: NeexProject, source: NeexProject): Promise<void> {
+        const docker = new DockerComposeGenerator(this.logger, this.system);
+        this.logger.step('Checking prerequisites...');
+        await docker.install();
+
+        await this.prepareEnvironment(config, project, source);
+
+        await this.hooks.run('preBuild', config, project);
+        await docker.generate(config, project);
+        await docker.build(config, project);
+        await this.hooks.run('postBuild', config, project);
+
+        await this.migrations.run(config, project);
+        await this.hooks.run('preStart', config, project);
+
+        await docker.start(config, project);
+        this.nginxReady = config.nginxConfig;
+
+        await this.createManagementScripts(config, project);
+        if (!this.system.isDryRun()) {
             await this.performFinalChecks(config, project);
+        }
+        await this.hooks.run('postDeploy', config, project);
+    }
 
-            this.logger.success(`🎉 Deployment completed successfully!`);
-            this.printPostDeploymentInfo(config, project);
+    /**
+     * Deploys to each of `hosts` in turn, the same way a single remote
+     * deploy works but without Nginx on the nodes. While a node is being
+     * updated Nginx sends it no traffic; a node that fails stops the
+     * rollout and stays out of rotation, and the nodes after it keep the
+     * previous version. Nginx runs here, or on `remote.host`.
+     */
+    private async runRollout(config: DeployConfig, project: NeexProject, source: NeexProject): Promise<void> {
+        const hosts = config.hosts!;
+        const nodes = getUpstreamNodes(config);
+        // With a single node there is nothing to send its traffic to instead
+        const drain = config.nginxConfig && hosts.length > 1;
+
+        for (const [index, node] of hosts.entries()) {
+            this.logger.step(`Deploying to ${node.host} (${index + 1}/${hosts.length})...`);
+
+            if (drain) {
+                await this.nginx.updateUpstreams(config, project, nodes.map((entry, i) => i === index ? { ...entry, down: true } : entry));
+            }
+
+            try {
+                await this.deployNode(config, source, node);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                const left = hosts.length - index - 1;
+                throw new Error(`Rollout stopped at ${node.host}: ${errorMessage}. ` +
+                    `${index} of ${hosts.length} node(s) updated` +
+                    `${left > 0 ? `, ${left} still run the previous version` : ''}` +
+                    `${drain ? `; ${node.host} receives no traffic until the next deploy` : ''}`);
+            }
+
+            if (drain) {
+                await this.nginx.updateUpstreams(config, project, nodes);
+            }
+            this.logger.success(`${node.host} updated`);
+        }
+
+        if (config.nginxConfig) {
+            await this.setupNginx(config, project);
+        }
+        if (this.nginxReady && !this.system.isDryRun()) {
+            await this.performFinalChecks(config, project, 'nginx');
+        }
+    }
+
+    /**
+     * Runs the pipeline on one node with a Deployer of its own. In a plan
+     * the node's changes are printed as a plan of their own.
+     */
+    private async deployNode(config: DeployConfig, source: NeexProject, node: HostConfig): Promise<void> {
+        const nodeConfig: DeployConfig = {
+            ...config,
+            hosts: undefined,
+            nginxConfig: false,
+            remote: { ...config.remote, host: node.host, port: node.port, identityFile: node.identityFile }
+        };
+        const deployer = new Deployer(await openTransport(nodeConfig));
+        const target = deployer.getTarget(nodeConfig, source);
+
+        // Each node keeps its own history
+        if (!this.system.isDryRun()) {
+            await deployer.recordRun('deploy', target.config, () => deployer.runPipeline(target.config, target.project, source));
+            return;
+        }
+
+        deployer.system.enableDryRun();
+        deployer.logger.setQuiet(true);
+        try {
+            await deployer.runPipeline(target.config, target.project, source);
+        } finally {
+            deployer.logger.setQuiet(false);
+        }
+        await deployer.printPlan(target.config, node.host);
+    }
+
+    /**
+     * Starts `release` as the colour that is not live, next to the live one,
+     * and checks it on its own ports. Only then are `current` and the Nginx
+     * upstreams switched to it, so a release that does not come up is
+     * stopped again without the site noticing. The colour that was live
+     * keeps running for blueGreen.keepWarm seconds.
+     */
+    private async promote(config: DeployConfig, project: NeexProject, release: string): Promise<void> {
+        const releases = config.releases!;
+        const live = await this.blueGreen.getLive(releases);
+        // The first colour is green, next to the apps a plain deploy may have left on the configured ports
+        const colour = live ? getOtherColour(live) : 'green';
+        const colourConfig = getColourConfig(config, colour);
+        const colourProject = this.blueGreen.getColourProject(releases, project, colour);
+        const processes = this.getProcessManager(colourConfig);
+
+        const retireFailure = await this.blueGreen.takeRetireFailure(releases, colour);
+        if (retireFailure) {
+            this.logger.warning(`Stopping ${colour} after blueGreen.keepWarm failed, so it kept running: ${retireFailure}`);
+        }
+        await this.blueGreen.cancelRetire(releases, colour);
+        const warm = await this.blueGreen.getRelease(releases, colour) === release &&
+            (await this.getRunningApps(colourConfig, colourProject)).length === getAppRoles(colourConfig, colourProject).length;
+
+        if (warm) {
+            this.logger.info(`${colour} is still running release ${release}`);
+        } else {
+            this.logger.step(`Starting release ${release} as ${colour}...`);
+            await this.blueGreen.assign(releases, colour, release);
+            await this.setupProcesses(colourConfig, colourProject);
+        }
+
+        if (!this.system.isDryRun()) {
+            try {
+                await this.performFinalChecks(colourConfig, colourProject, 'direct');
+            } catch (error) {
+                await processes.stop(colourConfig, colourProject).catch(() => undefined);
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                throw new Error(`${errorMessage}. ${colour} was stopped; ${live ? `${live} still serves traffic` : 'no traffic was switched'}`);
+            }
+        }
+
+        const previous = await this.releases.getActive(releases);
+        const currentProject = this.releases.getCurrentProject(releases, project);
+        await this.releases.activate(releases, release);
+
+        try {
+            await this.setupNginx(colourConfig, currentProject);
+            if (!this.system.isDryRun()) {
+                if (!this.nginxReady) {
+                    throw new Error(`Nginx is not set up, so no traffic was switched to ${colour}`);
+                }
+                await this.performFinalChecks(colourConfig, currentProject, 'nginx');
+            }
+        } catch (error) {
+            if (!this.system.isDryRun()) {
+                await this.switchBack(config, currentProject, previous, live);
+                await processes.stop(colourConfig, colourProject).catch(() => undefined);
+            }
+            throw error;
+        }
+
+        this.logger.success(`${colour} is live`);
+        await this.createManagementScripts(colourConfig, currentProject);
+        await this.retire(config, project, live);
+    }
+
+    private async switchBack(config: DeployConfig, currentProject: NeexProject, previous: string | null, live: Colour | null): Promise<void> {
+        if (!previous || !live) return;
 
+        this.logger.warning(`Sending traffic back to ${live}`);
+        try {
+            await this.releases.activate(config.releases!, previous);
+            await this.nginx.generate(getColourConfig(config, live), currentProject);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
-            this.logger.error(`Deployment failed: ${errorMessage}`);
-            throw error;
+            this.logger.error(`Could not switch back to ${live}: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Stops the colour that was live once blueGreen.keepWarm has passed,
+     * or removes the apps of a deploy from before blue/green right away.
+     */
+    private async retire(config: DeployConfig, project: NeexProject, colour: Colour | null): Promise<void> {
+        if (!colour) {
+            if (this.system.isDryRun()) {
+                this.system.addPlanNote('Apps started before blue/green deploys were enabled are removed after the switch');
+            } else if ((await this.getRunningApps(config, project)).length > 0) {
+                this.logger.info('Removing the apps started before blue/green deploys were enabled');
+                await this.getProcessManager(config).delete(config, project).catch(error => {
+                    this.logger.warning(`Could not remove them: ${error.message}`);
+                });
+            }
+            return;
+        }
+
+        const releases = config.releases!;
+        const colourConfig = getColourConfig(config, colour);
+        const colourProject = this.blueGreen.getColourProject(releases, project, colour);
+        const processes = this.getProcessManager(colourConfig);
+        const keepWarm = config.blueGreen?.keepWarm ?? DEFAULT_KEEP_WARM;
+
+        if (keepWarm === 0) {
+            if ((await this.getRunningApps(colourConfig, colourProject)).length > 0) {
+                await processes.stop(colourConfig, colourProject);
+            }
+            return;
+        }
+
+        await this.blueGreen.scheduleRetire(releases, colour, keepWarm, processes.getManagementCommands(colourConfig, colourProject).stop);
+        this.logger.info(`${colour} keeps running for ${keepWarm}s; deploy-neex switch sends traffic back to it`);
+    }
+
+    private async getRunningApps(config: DeployConfig, project: NeexProject): Promise<AppRole[]> {
+        const processes = this.getProcessManager(config);
+        const running: AppRole[] = [];
+
+        for (const role of getAppRoles(config, project)) {
+            if ((await processes.getPids(config, project, role)).length > 0) {
+                running.push(role);
+            }
+        }
+        return running;
+    }
+
+    private async startServices(config: DeployConfig, project: NeexProject): Promise<void> {
+        // Step 6: Setup the process manager
+        await this.setupProcesses(config, project);
+
+        // Step 7: Setup Nginx (if requested)
+        if (config.nginxConfig) {
+            await this.setupNginx(config, project);
+        }
+
+        // Step 8: Create management scripts
+        await this.createManagementScripts(config, project);
+
+        // Step 9: Final checks (nothing is running in a dry run)
+        if (!this.system.isDryRun()) {
+            await this.performFinalChecks(config, project);
         }
     }
 
@@ -71,44 +549,96 @@ export class Deployer {
         this.logger.success('Prerequisites checked');
     }
 
-    private async buildProject(project: NeexProject): Promise<void> {
+    private async buildProject(config: DeployConfig, project: NeexProject): Promise<void> {
         this.logger.step('Building project...');
 
         this.logger.startSpinner('Installing dependencies...');
         await this.system.executeCommand(project.packageManager, ['install'], project.rootPath);
-        this.logger.updateSpinner('Building applications...');
-        await this.system.executeCommand(project.packageManager, ['run', 'build'], project.rootPath);
+        // An uploaded artifact was built before it was sent
+        if (!this.system.isRemote() || config.remote?.sync !== 'artifact') {
+            this.logger.updateSpinner('Building applications...');
+            await this.system.executeCommand(project.packageManager, ['run', 'build'], project.rootPath);
+        }
         this.logger.stopSpinner();
 
         this.logger.success('Project built successfully');
     }
 
-    private async generateEnvironment(config: DeployConfig, project: NeexProject): Promise<void> {
-        const envPath = `${project.rootPath}/.env`;
-        const envExists = await this.system.checkCommand(`test -f ${envPath}`);
+    /**
+     * A static client is served straight from its build output, so the
+     * build has to have produced an index.html for Nginx to fall back to.
+     */
+    private async checkStaticOutput(config: DeployConfig, project: NeexProject): Promise<void> {
+        if (!project.hasClient || config.clientMode !== 'static') return;
 
-        if (!envExists) {
-            const envContent = `NODE_ENV=${config.environment}
-DATABASE_URL="your-database-connection-string"
-PORT_CLIENT=${config.clientPort}
-PORT_SERVER=${config.serverPort}
-# Add your other environment variables here
-`;
+        if (!config.nginxConfig) {
+            this.logger.warning('clientMode is static but Nginx is disabled, so nothing will serve the client');
+        }
 
-            await this.system.writeFile(envPath, envContent);
-            this.logger.success('.env file created');
-            this.logger.warning('Please update .env with your actual values');
+        const output = await resolveStaticOutput(this.system, project.clientPath, project.clientFramework, config.apps?.client?.outputDir);
+        const relative = path.relative(project.rootPath, output.root);
+
+        if (output.exists) {
+            this.logger.success(`Static client build found in ${relative}`);
+        } else if (this.system.isDryRun()) {
+            this.system.addPlanNote(`Static client will be served from ${relative}`);
         } else {
-            this.logger.success('.env file already exists');
+            throw new Error(`No index.html in ${relative} after the build. ` +
+                'Set apps.client.outputDir to the directory the client build writes to');
         }
     }
 
-    private async setupPM2(config: DeployConfig, project: NeexProject): Promise<void> {
-        this.logger.step('Setting up PM2...');
+    /**
+     * Creates `.env` if needed, decrypts the environment's secrets for the
+     * process manager, and refuses to continue while required keys are
+     * missing, empty or placeholders. A plan only reports the problems.
+     */
+    private async prepareEnvironment(config: DeployConfig, project: NeexProject, source: NeexProject): Promise<Record<string, string>> {
+        const env = await this.env.generate(config, project);
+        const secrets = await this.secrets.deploy(config, source);
+
+        // The check sees the values the apps will get, whichever file they come from
+        const effective = EnvFile.parse(env.toString());
+        for (const [key, value] of Object.entries(secrets ?? {})) {
+            effective.set(key, value);
+        }
+
+        if (secrets && config.secrets?.writeDotenv) {
+            await this.system.writeFile(this.env.getPath(project), effective.toString(), { mode: 0o600, sensitive: true });
+            this.logger.warning('Decrypted secrets were written to .env as requested by secrets.writeDotenv');
+        }
+
+        const issues = await this.env.check(config, project, effective);
 
-        await this.pm2.install();
-        await this.pm2.generate(config, project);
-        await this.pm2.start(config, project);
+        if (issues.length > 0) {
+            const error = new EnvValidationError(this.env.getPath(project), issues);
+            if (!this.system.isDryRun()) {
+                throw error;
+            }
+            this.logger.warning(error.message);
+        }
+
+        return secrets ?? {};
+    }
+
+    private getProcessManager(config: DeployConfig): ProcessManager {
+        return createProcessManager(config, this.logger, this.system);
+    }
+
+    private async setupProcesses(config: DeployConfig, project: NeexProject): Promise<void> {
+        const processes = this.getProcessManager(config);
+        this.logger.step(`Setting up ${processes.name}...`);
+
+        if (project.hasClient && !hasClientProcess(config, project)) {
+            this.logger.info('The client is static and served by Nginx; no client process is started');
+        }
+        if (getAppNames(config, project).length === 0) {
+            return;
+        }
+
+        await processes.install();
+        await processes.generate(config, project);
+        await processes.start(config, project);
     }
 
     private async setupNginx(config: DeployConfig, project: NeexProject): Promise<void> {
@@ -117,71 +647,146 @@ PORT_SERVER=${config.serverPort}
         try {
             await this.nginx.install();
             await this.nginx.generate(config, project);
+            this.nginxReady = true;
         } catch (error) {
+            // A config that fails `nginx -t` has been rolled back; fail the deployment
+            if (error instanceof NginxValidationError) {
+                throw error;
+            }
+
             const errorMessage = error instanceof Error ? error.message : String(error);
             this.logger.warning(`Nginx setup requires manual intervention: ${errorMessage}`);
+
+            // Still render the site config so the plan shows what would change
+            if (this.system.isDryRun()) {
+                await this.nginx.generate(config, project);
+            }
         }
     }
 
     private async createManagementScripts(config: DeployConfig, project: NeexProject): Promise<void> {
         this.logger.step('Creating management scripts...');
+        const processes = this.getProcessManager(config);
+        const commands = processes.getManagementCommands(config, project);
 
-        // Status script
-        const statusScript = `#!/bin/bash
-echo "=== PM2 Status ==="
-pm2 status
-
-echo -e "\\n=== PM2 Logs (last 20 lines) ==="
-pm2 logs --lines 20
-
-echo -e "\\n=== Port Status ==="
-netstat -tulpn | grep -E ":(${config.clientPort}|${config.serverPort}|80|443)" || true
-
-echo -e "\\n=== System Resources ==="
-df -h
-free -h 2>/dev/null || top -l 1 | grep -E "^(Processes|PhysMem)"
-`;
+        const context = { config, project, processManager: processes.name, commands };
 
-        await this.system.writeFile(`${project.rootPath}/status.sh`, statusScript);
+        await this.system.writeFile(`${project.rootPath}/status.sh`, await this.templates.render('status.sh', context));
         await this.system.executeCommand('chmod', ['+x', 'status.sh'], project.rootPath);
 
-        // Restart script
-        const restartScript = `#!/bin/bash
-echo "Restarting services..."
-pm2 restart all
-echo "Services restarted!"
-`;
-
-        await this.system.writeFile(`${project.rootPath}/restart.sh`, restartScript);
+        await this.system.writeFile(`${project.rootPath}/restart.sh`, await this.templates.render('restart.sh', context));
         await this.system.executeCommand('chmod', ['+x', 'restart.sh'], project.rootPath);
 
         this.logger.success('Management scripts created');
     }
 
-    private async performFinalChecks(config: DeployConfig, project: NeexProject): Promise<void> {
+    // The apps' own ports can only be probed where they run
+    private async performFinalChecks(config: DeployConfig, project: NeexProject, scope: CheckScope = 'all'): Promise<void> {
         this.logger.step('Performing final checks...');
 
-        // Wait a moment for services to start
-        await new Promise(resolve => setTimeout(resolve, 3000));
+        const settings = config.healthCheck ?? {};
+        const targets: HealthTarget[] = [];
+        const direct = scope !== 'nginx';
+        const viaNginx = scope !== 'direct' && this.nginxReady && settings.viaNginx !== false;
+
+        // A static client has no port of its own and can only be checked through Nginx
+        const addTargets = (name: string, port: number | null, check: HealthCheckConfig = {}, nginxPrefix: string) => {
+            if (check.enabled === false) return;
+            const checkPath = check.path ?? DEFAULT_HEALTH_CHECK.path;
+
+            if (port !== null && direct) {
+                targets.push({ name, url: `http://127.0.0.1:${port}${checkPath}`, check });
+            }
+            if (viaNginx) {
+                targets.push({
+                    name: `${name} via Nginx`,
+                    url: `${config.ssl ? 'https' : 'http'}://127.0.0.1${nginxPrefix}${checkPath}`,
+                    host: config.domain,
+                    check
+                });
+            }
+        };
 
-        // Check if ports are accessible
         if (project.hasClient) {
-            const clientAvailable = await this.system.isPortAvailable(config.clientPort);
-            if (clientAvailable) {
-                this.logger.warning(`Client port ${config.clientPort} seems to be available (service might not be running)`);
+            addTargets('Client', hasClientProcess(config, project) ? config.clientPort : null, settings.client, '');
+        }
+        if (project.hasServer) {
+            // When Nginx strips the API prefix, the server's own paths sit below it
+            const route = getApiRoute(config);
+            addTargets('Server', config.serverPort, settings.server, route.strip ? route.prefix.replace(/\/$/, '') : '');
+        }
+
+        const failures: string[] = [];
+
+        for (const target of targets) {
+            const result = await this.health.check(target);
+            if (result.ok) {
+                this.logger.success(`${target.name} is healthy (${target.url} -> ${result.status})`);
             } else {
-                this.logger.success(`Client is running on port ${config.clientPort}`);
+                this.logger.error(`${target.name} failed its health check after ${result.attempts} attempt(s): ${result.error}`);
+                failures.push(target.name);
             }
         }
 
-        if (project.hasServer) {
-            const serverAvailable = await this.system.isPortAvailable(config.serverPort);
-            if (serverAvailable) {
-                this.logger.warning(`Server port ${config.serverPort} seems to be available (service might not be running)`);
-            } else {
-                this.logger.success(`Server is running on port ${config.serverPort}`);
+        if (failures.length > 0) {
+            throw new Error(`Health check failed for ${failures.join(', ')}`);
+        }
+    }
+
+    private async printPlan(config: DeployConfig, host?: string): Promise<void> {
+        const files = this.system.getPlannedFiles();
+        const commands = this.system.getPlannedCommands();
+        let changedFiles = 0;
+
+        console.log('\n' + '='.repeat(60));
+        console.log(`📝 DEPLOYMENT PLAN: ${config.projectName}${host ? ` on ${host}` : ''}`);
+        console.log('='.repeat(60));
+
+        console.log('\n📄 Files:');
+        for (const file of files) {
+            const onDisk = await this.system.readFile(file.path);
+            const exists = onDisk !== null;
+
+            if (file.sensitive) {
+                changedFiles++;
+                console.log(chalk.yellow(`   ${exists ? '~' : '+'} ${file.path} (contents hidden)`));
+                continue;
+            }
+
+            const diff = unifiedDiff(onDisk ?? '', file.content, exists ? file.path : '/dev/null', file.path);
+
+            if (!diff) {
+                console.log(chalk.gray(`   = ${file.path} (unchanged)`));
+                continue;
             }
+
+            changedFiles++;
+            console.log(exists ? chalk.yellow(`   ~ ${file.path}`) : chalk.green(`   + ${file.path}`));
+            console.log(diff.trimEnd().split('\n').map(line => {
+                if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(`     ${line}`);
+                if (line.startsWith('+')) return chalk.green(`     ${line}`);
+                if (line.startsWith('-')) return chalk.red(`     ${line}`);
+                if (line.startsWith('@@')) return chalk.cyan(`     ${line}`);
+                return `     ${line}`;
+            }).join('\n'));
+        }
+
+        const notes = this.system.getPlanNotes();
+        if (notes.length > 0) {
+            console.log('\n📋 Notes:');
+            notes.forEach(note => console.log(`   ${note.split('\n').join('\n   ')}`));
         }
+
+        console.log('\n⚙️  Commands:');
+        commands.forEach((planned, index) => {
+            const location = planned.cwd ? chalk.gray(` (in ${planned.cwd})`) : '';
+            const env = Object.entries(planned.env ?? {}).map(([key, value]) => `${key}=${value}`);
+            console.log(`   ${index + 1}. ${[...env, planned.command, ...planned.args].join(' ')}${location}`);
+        });
+
+        console.log(`\n${changedFiles} of ${files.length} file(s) would change, ${commands.length} command(s) would run.`);
+        console.log('No changes were made. Run without --plan to apply.');
+        console.log('\n' + '='.repeat(60));
     }
 
     private printPostDeploymentInfo(config: DeployConfig, project: NeexProject): void {
@@ -189,31 +794,50 @@ echo "Services restarted!"
         console.log('🎉 DEPLOYMENT COMPLETED SUCCESSFULLY!');
         console.log('='.repeat(60));
 
-        console.log('\n📋 Your application is now running:');
-        if (project.hasClient) {
+        console.log(this.system.isRemote()
+            ? `\n📋 Your application is now running on ${config.remote?.host} (${project.rootPath}):`
+            : '\n📋 Your application is now running:');
+        if (hasClientProcess(config, project)) {
             console.log(`   Frontend: http://localhost:${config.clientPort}`);
+        } else if (project.hasClient) {
+            console.log('   Frontend: static files served by Nginx');
         }
         if (project.hasServer) {
             console.log(`   Backend:  http://localhost:${config.serverPort}`);
         }
+        if (config.revision) {
+            const { version, sha, author, message } = config.revision;
+            console.log(`   Revision: ${version} (${sha.slice(0, 7)}) by ${author}: ${message}`);
+        }
+        if (config.colour) {
+            console.log(`   Colour:   ${config.colour} (deploy-neex switch goes back to ${getOtherColour(config.colour)})`);
+        }
         if (config.domain !== 'localhost') {
-            console.log(`   Public:   http://${config.domain}`);
+            console.log(`   Public:   ${config.ssl ? 'https' : 'http'}://${config.domain}`);
         }
 
         console.log('\n🔧 Management commands:');
         console.log('   Check status: ./status.sh');
         console.log('   Restart:      ./restart.sh');
-        console.log('   PM2 logs:     pm2 logs');
-        console.log('   PM2 monitor:  pm2 monit');
+        console.log('   Logs:         deploy-neex logs');
+        if (config.target === 'docker') {
+            console.log(`   Containers:   docker ${getComposeCommand(config, project).join(' ')} ps`);
+        } else if ((config.processManager ?? 'pm2') === 'pm2') {
+            console.log('   PM2 monitor:  pm2 monit');
+        }
 
         console.log('\n📝 Next steps:');
         console.log('   1. Update .env file with your actual values');
         if (config.nginxConfig) {
-            console.log('   2. Follow nginx-setup.md for Nginx configuration');
-            console.log('   3. Setup SSL certificate for production');
+            console.log(config.target === 'docker'
+                ? '   2. Nginx runs in the nginx service with docker/nginx.conf'
+                : '   2. See nginx-setup.md for how the Nginx site was enabled');
+            if (!config.ssl) {
+                console.log('   3. Enable ssl in deploy.neex.yml for production');
+            }
         }
         console.log('   4. Configure your firewall to allow HTTP/HTTPS traffic');
 
         console.log('\n' + '='.repeat(60));
     }
-}
\ No newline at end of file
+}
@@ -1,9 +1,85 @@
 // src/detector.ts
 import fs from 'fs-extra';
 import path from 'path';
-import { NeexProject } from './types.js';
+import { parse } from 'yaml';
+import { AppRole, DeployConfig, Framework, MigrationTool, NeexProject } from './types.js';
 import { Logger } from './utils/logger.js';
 
+interface DetectedApp {
+    path: string;
+    framework?: Framework;
+}
+
+const CLIENT_NAMES = ['client', 'web', 'frontend', 'www', 'site'];
+const SERVER_NAMES = ['server', 'api', 'backend'];
+const CLIENT_FRAMEWORKS: Framework[] = ['nextjs', 'remix', 'vite'];
+const SERVER_FRAMEWORKS: Framework[] = ['nestjs', 'fastify', 'express'];
+const MAX_WORKSPACE_DEPTH = 5;
+
+export interface DetectedPorts {
+    clientPort: number;
+    serverPort: number;
+    // Where each port was found, e.g. "apps/client/package.json scripts.start"
+    sources: Record<AppRole, string>;
+}
+
+interface PortFinding {
+    port: number;
+    source: string;
+}
+
+const DEFAULT_PORTS: Record<AppRole, number> = { client: 3000, server: 8000 };
+const CONFIG_EXTENSIONS = ['.ts', '.mts', '.js', '.mjs', '.cjs'];
+const SERVER_SOURCE_FILES = [
+    'src/server.ts', 'src/main.ts', 'src/index.ts', 'src/app.ts',
+    'src/server.js', 'src/main.js', 'src/index.js', 'src/app.js',
+    'server.js', 'index.js'
+];
+
+// Patterns are tried in order; each one only matches a port in a specific position
+const SCRIPT_PORT_PATTERNS = [
+    /(?:^|\s)(?:-p|--port)[=\s]+(\d+)\b/,
+    /\bPORT=(\d+)\b/
+];
+const FRAMEWORK_CONFIG_PORT_PATTERNS = [
+    /\bpreview\s*:\s*\{[^}]*?\bport\s*:\s*(\d+)/,
+    /\bserver\s*:\s*\{[^}]*?\bport\s*:\s*(\d+)/,
+    /\bPORT\s*:\s*['"]?(\d+)/
+];
+const SOURCE_PORT_PATTERNS = [
+    /process\.env\.PORT\s*(?:\|\||\?\?)\s*['"]?(\d+)/,
+    /\b(?:const|let|var)\s+(?:PORT|port)\s*(?::\s*\w+\s*)?=\s*(\d+)\b/,
+    /\.listen\(\s*(?:\{\s*port\s*:\s*)?(\d+)\b/
+];
+
+function isPort(value: string | undefined): value is string {
+    if (value === undefined || !/^\d+$/.test(value)) return false;
+    const port = parseInt(value);
+    return port > 0 && port <= 65535;
+}
+
+function matchPort(content: string, patterns: RegExp[]): number | null {
+    for (const pattern of patterns) {
+        const match = content.match(pattern);
+        if (match && isPort(match[1])) {
+            return parseInt(match[1]);
+        }
+    }
+    return null;
+}
+
+// Just enough dotenv parsing to read KEY=value lines
+function parseEnv(content: string): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const line of content.split('\n')) {
+        const match = line.match(/^\s*(?:export\s+)?([\w.]+)\s*=\s*(.*?)\s*$/);
+        if (match) {
+            env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+        }
+    }
+    return env;
+}
+
 export class NeexDetector {
     private logger: Logger;
 
@@ -11,7 +87,7 @@ export class NeexDetector {
         this.logger = logger;
     }
 
-    async detectProject(rootPath: string = process.cwd()): Promise<NeexProject | null> {
+    async detectProject(rootPath: string = process.cwd(), overrides: DeployConfig['apps'] = {}): Promise<NeexProject | null> {
         const packageJsonPath = path.join(rootPath, 'package.json');
 
         if (!await fs.pathExists(packageJsonPath)) {
@@ -20,27 +96,26 @@ export class NeexDetector {
         }
 
         const packageJson = await fs.readJson(packageJsonPath);
+        const apps = await this.findApps(rootPath, packageJson, overrides);
+
+        if (!apps) {
+            return null;
+        }
 
         // Check if it's a Neex project
         const isNeexProject =
             packageJson.devDependencies?.neex ||
             packageJson.dependencies?.neex ||
-            packageJson.workspaces?.includes('apps/client') ||
-            packageJson.workspaces?.includes('apps/server');
+            apps.client ||
+            apps.server;
 
         if (!isNeexProject) {
             this.logger.error('This doesn\'t appear to be a Neex project.');
             return null;
         }
 
-        const clientPath = path.join(rootPath, 'apps', 'client');
-        const serverPath = path.join(rootPath, 'apps', 'server');
-
-        const hasClient = await fs.pathExists(clientPath);
-        const hasServer = await fs.pathExists(serverPath);
-
-        if (!hasClient && !hasServer) {
-            this.logger.error('No client or server found in apps/ directory.');
+        if (!apps.client && !apps.server) {
+            this.logger.error('No client or server app found in the workspaces.');
             return null;
         }
 
@@ -51,49 +126,297 @@ export class NeexDetector {
         else if (await fs.pathExists(path.join(rootPath, 'yarn.lock'))) packageManager = 'yarn';
 
         this.logger.success(`Detected Neex project with ${packageManager}`);
+        for (const role of ['client', 'server'] as const) {
+            const app = apps[role];
+            if (app) {
+                this.logger.info(`${role}: ${path.relative(rootPath, app.path)}${app.framework ? ` (${app.framework})` : ''}`);
+            }
+        }
 
         return {
-            hasClient,
-            hasServer,
-            clientPath,
-            serverPath,
+            hasClient: Boolean(apps.client),
+            hasServer: Boolean(apps.server),
+            // Keep the conventional paths when an app is missing so relative lookups stay valid
+            clientPath: apps.client?.path ?? path.join(rootPath, 'apps', 'client'),
+            serverPath: apps.server?.path ?? path.join(rootPath, 'apps', 'server'),
             rootPath,
-            packageManager
+            packageManager,
+            clientFramework: apps.client?.framework,
+            serverFramework: apps.server?.framework,
+            migrationTool: apps.server ? await this.detectMigrationTool(apps.server.path, rootPath) : undefined
+        };
+    }
+
+    /**
+     * Picks the client and server apps: explicit `apps.<role>.path` overrides
+     * first, then workspace packages by folder name, then by framework.
+     */
+    private async findApps(rootPath: string, packageJson: any, overrides: DeployConfig['apps']): Promise<Partial<Record<AppRole, DetectedApp>> | null> {
+        const apps: Partial<Record<AppRole, DetectedApp>> = {};
+
+        for (const role of ['client', 'server'] as const) {
+            const override = overrides?.[role];
+            if (!override?.path) continue;
+
+            const appPath = path.resolve(rootPath, override.path);
+            if (!await fs.pathExists(appPath)) {
+                this.logger.error(`Configured ${role} path ${override.path} does not exist.`);
+                return null;
+            }
+            apps[role] = { path: appPath, framework: override.framework ?? await this.detectFramework(appPath) };
+        }
+
+        const candidates: DetectedApp[] = [];
+        for (const appPath of await this.expandWorkspaces(rootPath, await this.getWorkspacePatterns(rootPath, packageJson))) {
+            if (appPath === apps.client?.path || appPath === apps.server?.path) continue;
+            candidates.push({ path: appPath, framework: await this.detectFramework(appPath) });
+        }
+
+        const byName = (names: string[]) => candidates.find(app => names.includes(path.basename(app.path)));
+        const byFramework = (frameworks: Framework[]) => candidates.find(app => app.framework && frameworks.includes(app.framework));
+
+        apps.client ??= byName(CLIENT_NAMES) ?? byFramework(CLIENT_FRAMEWORKS);
+        apps.server ??= byName(SERVER_NAMES) ?? byFramework(SERVER_FRAMEWORKS);
+
+        for (const role of ['client', 'server'] as const) {
+            const framework = overrides?.[role]?.framework;
+            if (apps[role] && framework) {
+                apps[role] = { ...apps[role]!, framework };
+            }
+        }
+
+        return apps;
+    }
+
+    /**
+     * Workspace globs from package.json (npm, yarn, bun) or
+     * pnpm-workspace.yaml. Turborepo and Nx repos without either, and plain
+     * repos, fall back to the conventional folders.
+     */
+    private async getWorkspacePatterns(rootPath: string, packageJson: any): Promise<string[]> {
+        const workspaces = Array.isArray(packageJson.workspaces)
+            ? packageJson.workspaces
+            : packageJson.workspaces?.packages;
+
+        if (Array.isArray(workspaces) && workspaces.length > 0) {
+            return workspaces;
+        }
+
+        const pnpmWorkspacePath = path.join(rootPath, 'pnpm-workspace.yaml');
+        if (await fs.pathExists(pnpmWorkspacePath)) {
+            const pnpmWorkspace = parse(await fs.readFile(pnpmWorkspacePath, 'utf-8'));
+            if (Array.isArray(pnpmWorkspace?.packages) && pnpmWorkspace.packages.length > 0) {
+                return pnpmWorkspace.packages;
+            }
+        }
+
+        return ['apps/*', 'packages/*'];
+    }
+
+    /**
+     * Expands workspace globs to directories containing a package.json.
+     * Supports `*` and `**` segments and `!` exclusions, which is what
+     * workspace declarations use in practice.
+     */
+    private async expandWorkspaces(rootPath: string, patterns: string[]): Promise<string[]> {
+        const included = new Set<string>();
+        const excluded = new Set<string>();
+
+        for (const pattern of patterns) {
+            const negated = pattern.startsWith('!');
+            const segments = pattern.replace(/^!/, '').replace(/^\.\//, '').split('/').filter(Boolean);
+            const matches = await this.matchSegments(rootPath, segments);
+
+            for (const match of matches) {
+                (negated ? excluded : included).add(match);
+            }
+        }
+
+        const result: string[] = [];
+        for (const dir of included) {
+            if (!excluded.has(dir) && await fs.pathExists(path.join(dir, 'package.json'))) {
+                result.push(dir);
+            }
+        }
+
+        return result.sort();
+    }
+
+    private async matchSegments(base: string, segments: string[], depth: number = 0): Promise<string[]> {
+        if (segments.length === 0) return [base];
+        if (depth > MAX_WORKSPACE_DEPTH) return [];
+
+        const [segment, ...rest] = segments;
+
+        if (!segment.includes('*')) {
+            const next = path.join(base, segment);
+            return await fs.pathExists(next) ? this.matchSegments(next, rest, depth + 1) : [];
+        }
+
+        const children = await this.listDirectories(base);
+
+        if (segment === '**') {
+            // `**` matches zero or more directories
+            const here = await this.matchSegments(base, rest, depth + 1);
+            const deeper = await Promise.all(children.map(child => this.matchSegments(child, segments, depth + 1)));
+            return [...here, ...deeper.flat()];
+        }
+
+        const regex = new RegExp(`^${segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*')}$`);
+        const matched = await Promise.all(children
+            .filter(child => regex.test(path.basename(child)))
+            .map(child => this.matchSegments(child, rest, depth + 1)));
+
+        return matched.flat();
+    }
+
+    private async listDirectories(dir: string): Promise<string[]> {
+        if (!await fs.pathExists(dir)) return [];
+
+        const entries = await fs.readdir(dir, { withFileTypes: true });
+        return entries
+            .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+            .map(entry => path.join(dir, entry.name));
+    }
+
+    async detectFramework(appPath: string): Promise<Framework | undefined> {
+        const packageJsonPath = path.join(appPath, 'package.json');
+        if (!await fs.pathExists(packageJsonPath)) return undefined;
+
+        const packageJson = await fs.readJson(packageJsonPath);
+        const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+        const has = (name: string) => dependencies[name] !== undefined;
+
+        // Order matters: NestJS ships Express and Remix ships Vite
+        if (has('@nestjs/core')) return 'nestjs';
+        if (Object.keys(dependencies).some(name => name.startsWith('@remix-run/'))) return 'remix';
+        if (has('next')) return 'nextjs';
+        if (has('vite')) return 'vite';
+        if (has('fastify')) return 'fastify';
+        if (has('express')) return 'express';
+
+        return undefined;
+    }
+
+    /**
+     * Finds the migration tool the server app uses from its config files:
+     * a Prisma schema, a drizzle-kit config or a knexfile.
+     */
+    async detectMigrationTool(serverPath: string, rootPath: string): Promise<MigrationTool | undefined> {
+        const packageJsonPath = path.join(serverPath, 'package.json');
+        const packageJson = await fs.pathExists(packageJsonPath) ? await fs.readJson(packageJsonPath) : {};
+        const exists = async (names: string[]) => {
+            for (const name of names) {
+                if (await fs.pathExists(path.join(serverPath, name))) return true;
+            }
+            return false;
         };
+
+        // Prisma looks next to the app first, then at the repo root
+        if (packageJson.prisma?.schema ||
+            await exists(['prisma/schema.prisma', 'schema.prisma', 'prisma/schema']) ||
+            await fs.pathExists(path.join(rootPath, 'prisma', 'schema.prisma'))) {
+            this.logger.info('server migrations: prisma');
+            return 'prisma';
+        }
+
+        if (await exists(CONFIG_EXTENSIONS.map(extension => `drizzle.config${extension}`).concat('drizzle.config.json'))) {
+            this.logger.info('server migrations: drizzle');
+            return 'drizzle';
+        }
+
+        if (await exists(CONFIG_EXTENSIONS.map(extension => `knexfile${extension}`))) {
+            this.logger.info('server migrations: knex');
+            return 'knex';
+        }
+
+        return undefined;
     }
 
-    async detectPorts(project: NeexProject): Promise<{ clientPort: number; serverPort: number }> {
-        let clientPort = 3000;
-        let serverPort = 8000;
-
-        // Try to detect from package.json scripts or server files
-        if (project.hasServer) {
-            const serverPackageJson = path.join(project.serverPath, 'package.json');
-            if (await fs.pathExists(serverPackageJson)) {
-                const serverPkg = await fs.readJson(serverPackageJson);
-                // Look for port in start script or dev script
-                const startScript = serverPkg.scripts?.start || '';
-                const devScript = serverPkg.scripts?.dev || '';
-
-                const portMatch = (startScript + devScript).match(/(?:PORT|port)[=\s]+(\d+)/);
-                if (portMatch) {
-                    serverPort = parseInt(portMatch[1]);
+    /**
+     * Resolves each app's port from, in order: `.env.production`/`.env`
+     * files, the app's start/dev scripts, the framework config and the
+     * server source. Every finding is reported with where it came from.
+     */
+    async detectPorts(project: NeexProject): Promise<DetectedPorts> {
+        const client = project.hasClient ? await this.findPort(project, 'client') : null;
+        const server = project.hasServer ? await this.findPort(project, 'server') : null;
+
+        const ports: DetectedPorts = {
+            clientPort: client?.port ?? DEFAULT_PORTS.client,
+            serverPort: server?.port ?? DEFAULT_PORTS.server,
+            sources: {
+                client: client?.source ?? 'default',
+                server: server?.source ?? 'default'
+            }
+        };
+
+        if (project.hasClient) this.logger.info(`Client port ${ports.clientPort} (${ports.sources.client})`);
+        if (project.hasServer) this.logger.info(`Server port ${ports.serverPort} (${ports.sources.server})`);
+
+        return ports;
+    }
+
+    private async findPort(project: NeexProject, role: AppRole): Promise<PortFinding | null> {
+        const appPath = role === 'client' ? project.clientPath : project.serverPath;
+        const relative = (file: string) => path.relative(project.rootPath, file) || path.basename(file);
+
+        // The app's own env files use PORT; the root ones need a per-app key
+        const envFiles: Array<[string, string[]]> = [];
+        for (const name of ['.env.production', '.env']) {
+            envFiles.push([path.join(appPath, name), ['PORT']]);
+        }
+        for (const name of ['.env.production', '.env']) {
+            envFiles.push([path.join(project.rootPath, name), role === 'client' ? ['PORT_CLIENT', 'CLIENT_PORT'] : ['PORT_SERVER', 'SERVER_PORT']]);
+        }
+
+        for (const [file, keys] of envFiles) {
+            if (!await fs.pathExists(file)) continue;
+            const env = parseEnv(await fs.readFile(file, 'utf-8'));
+            const key = keys.find(name => isPort(env[name]));
+            if (key) {
+                return { port: parseInt(env[key]), source: `${relative(file)} ${key}` };
+            }
+        }
+
+        const packageJsonPath = path.join(appPath, 'package.json');
+        if (await fs.pathExists(packageJsonPath)) {
+            const scripts = (await fs.readJson(packageJsonPath)).scripts ?? {};
+            for (const name of ['start', 'dev']) {
+                const port = matchPort(scripts[name] ?? '', SCRIPT_PORT_PATTERNS);
+                if (port) {
+                    return { port, source: `${relative(packageJsonPath)} scripts.${name}` };
                 }
             }
+        }
+
+        const framework = role === 'client' ? project.clientFramework : project.serverFramework;
+        const configNames = framework === 'nextjs' ? ['next.config'] : framework === 'vite' || framework === 'remix' ? ['vite.config'] : [];
+        const sourceFiles = role === 'server' ? SERVER_SOURCE_FILES : [];
+
+        for (const name of configNames) {
+            for (const extension of CONFIG_EXTENSIONS) {
+                const file = path.join(appPath, name + extension);
+                if (!await fs.pathExists(file)) continue;
 
-            // Also check server.ts file for port configuration
-            const serverTsPath = path.join(project.serverPath, 'src', 'server.ts');
-            if (await fs.pathExists(serverTsPath)) {
-                const serverContent = await fs.readFile(serverTsPath, 'utf-8');
-                const portMatch = serverContent.match(/(?:PORT|port)[:\s=]+(\d+)/);
-                if (portMatch) {
-                    serverPort = parseInt(portMatch[1]);
+                // Production serves through `vite preview`, so its port wins over the dev server's
+                const port = matchPort(await fs.readFile(file, 'utf-8'), FRAMEWORK_CONFIG_PORT_PATTERNS);
+                if (port) {
+                    return { port, source: relative(file) };
                 }
             }
         }
 
-        this.logger.info(`Detected ports - Client: ${clientPort}, Server: ${serverPort}`);
+        for (const name of sourceFiles) {
+            const file = path.join(appPath, name);
+            if (!await fs.pathExists(file)) continue;
+
+            const port = matchPort(await fs.readFile(file, 'utf-8'), SOURCE_PORT_PATTERNS);
+            if (port) {
+                return { port, source: relative(file) };
+            }
+        }
 
-        return { clientPort, serverPort };
+        return null;
     }
 }
\ No newline at end of file
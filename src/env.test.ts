@@ -0,0 +1,99 @@
+// src/env.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { EnvFile, isPlaceholder, maskValue, validateEnv } from './env.js';
+
+describe('EnvFile', () => {
+    it('parses quoting, exports and inline comments', () => {
+        const env = EnvFile.parse([
+            '# database',
+            'export DATABASE_URL=postgres://db/app # primary',
+            "GREETING='hello # not a comment'",
+            'MESSAGE="line one\\nline \\"two\\""',
+            'EMPTY=',
+            ''
+        ].join('\n'));
+
+        assert.deepEqual(env.toRecord(), {
+            DATABASE_URL: 'postgres://db/app',
+            GREETING: 'hello # not a comment',
+            MESSAGE: 'line one\nline "two"',
+            EMPTY: ''
+        });
+    });
+
+    it('reads double-quoted values across lines', () => {
+        const env = EnvFile.parse('KEY="-----BEGIN KEY-----\nabc\n-----END KEY-----"\nNEXT=1\n');
+        assert.equal(env.get('KEY'), '-----BEGIN KEY-----\nabc\n-----END KEY-----');
+        assert.equal(env.get('NEXT'), '1');
+    });
+
+    it('leaves untouched lines as they were', () => {
+        const content = '# comment\n\nexport A = 1   # keep\nB="x"\n';
+        const env = EnvFile.parse(content);
+        assert.equal(env.toString(), content);
+
+        env.set('B', 'changed value');
+        assert.equal(env.toString(), '# comment\n\nexport A = 1   # keep\nB="changed value"\n');
+    });
+
+    it('keeps the export and the comment of a key it rewrites', () => {
+        const env = EnvFile.parse('export A=1 # note\n');
+        env.set('A', '2');
+        assert.equal(env.toString(), 'export A=2 # note\n');
+    });
+
+    it('adds new keys before the trailing newline', () => {
+        const env = EnvFile.parse('A=1\n');
+        env.set('B', '2');
+        assert.equal(env.toString(), 'A=1\nB=2\n');
+    });
+
+    it('round-trips values that need quoting', () => {
+        const value = 'a "quoted" value\nwith \\ backslash and # hash';
+        const env = EnvFile.parse('');
+        env.set('VALUE', value);
+        assert.equal(EnvFile.parse(env.toString()).get('VALUE'), value);
+    });
+
+    it('lets the last of a repeated key win and unsets all of them', () => {
+        const env = EnvFile.parse('A=1\nA=2\nB=3\n');
+        assert.equal(env.get('A'), '2');
+        assert.deepEqual(env.keys(), ['A', 'B']);
+
+        assert.equal(env.unset('A'), true);
+        assert.equal(env.unset('A'), false);
+        assert.equal(env.toString(), 'B=3\n');
+    });
+});
+
+describe('maskValue', () => {
+    it('masks secret-looking keys and credential URLs', () => {
+        assert.equal(maskValue('API_KEY', 'abc'), '********');
+        assert.equal(maskValue('JWT_SECRET', 'abc'), '********');
+        assert.equal(maskValue('DATABASE_URL', 'postgres://user:pass@db/app'), '********');
+        assert.equal(maskValue('DATABASE_URL', 'postgres://db/app'), 'postgres://db/app');
+        assert.equal(maskValue('KEYBOARD_LAYOUT', 'us'), 'us');
+        assert.equal(maskValue('API_KEY', ''), '');
+    });
+});
+
+describe('validateEnv', () => {
+    it('checks the example keys and the schema types', () => {
+        const example = EnvFile.parse('DATABASE_URL=\nAPI_TOKEN=changeme\nNAME=\n');
+        const env = EnvFile.parse('API_TOKEN=changeme\nNAME=\nPORT=http\n');
+
+        assert.deepEqual(validateEnv(env, example, { PORT: { type: 'port' } }), [
+            { key: 'DATABASE_URL', message: 'is missing' },
+            { key: 'API_TOKEN', message: 'still holds a placeholder value' },
+            { key: 'NAME', message: 'is empty' },
+            { key: 'PORT', message: 'must be a port between 1 and 65535' }
+        ]);
+    });
+
+    it('recognises placeholders', () => {
+        assert.equal(isPlaceholder('your-api-key'), true);
+        assert.equal(isPlaceholder('<token>'), true);
+        assert.equal(isPlaceholder('s3cr3t'), false);
+    });
+});
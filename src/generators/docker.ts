@@ -0,0 +1,495 @@
+// src/generators/docker.ts
+import path from 'path';
+import { AppRole, DeployConfig, HealthCheckConfig, NeexProject } from '../types.js';
+import { Logger } from '../utils/logger.js';
+import { SystemUtils } from '../utils/system.js';
+import { CertificateManager } from '../certificates.js';
+import { DEFAULT_HEALTH_CHECK } from '../health.js';
+import { findRuntimeSecretsFile } from '../secrets.js';
+import { getRevisionEnv } from '../git.js';
+import { TemplateRenderer } from '../templates.js';
+import { resolveStartScript, resolveStaticOutput } from './entry.js';
+import { NginxGenerator, NginxValidationError } from './nginx.js';
+import { LogOptions, ManagementCommands, ProcessManager, getAppNames, hasClientProcess } from './process-manager.js';
+
+const DEFAULT_NODE_IMAGE = 'node:20-alpine';
+const DEFAULT_NGINX_IMAGE = 'nginx:1.27-alpine';
+const DEFAULT_COMPOSE_FILE = 'docker-compose.yml';
+// Dockerfiles and the Nginx site config, relative to the project root
+const DOCKER_DIR = 'docker';
+// Where the project is copied inside the images
+const CONTAINER_ROOT = '/app';
+const STATIC_ROOT = '/usr/share/nginx/html';
+// Every generated file starts with this, so files written by hand are never replaced
+const GENERATED_MARKER = '# Generated by deploy-neex';
+
+interface PackageManagerCommands {
+    lockfiles: string[];
+    // Run in both stages, before anything else uses the package manager
+    setup?: string;
+    install: string;
+    // Used when there is no lockfile to install from
+    installUnlocked: string;
+    // Drops devDependencies after the build; yarn has no command that works across versions
+    prune?: string;
+}
+
+const PACKAGE_MANAGERS: Record<DeployConfig['packageManager'], PackageManagerCommands> = {
+    npm: {
+        lockfiles: ['package-lock.json', 'npm-shrinkwrap.json'],
+        install: 'npm ci',
+        installUnlocked: 'npm install',
+        prune: 'npm prune --omit=dev'
+    },
+    yarn: {
+        lockfiles: ['yarn.lock'],
+        setup: 'corepack enable',
+        install: 'yarn install --frozen-lockfile',
+        installUnlocked: 'yarn install'
+    },
+    pnpm: {
+        lockfiles: ['pnpm-lock.yaml'],
+        setup: 'corepack enable',
+        install: 'pnpm install --frozen-lockfile',
+        installUnlocked: 'pnpm install',
+        prune: 'pnpm prune --prod'
+    },
+    bun: {
+        lockfiles: ['bun.lockb', 'bun.lock'],
+        setup: 'npm install -g bun',
+        install: 'bun install --frozen-lockfile',
+        installUnlocked: 'bun install'
+    }
+};
+
+/**
+ * The `docker compose` invocation for this project's stack. The project
+ * name is passed explicitly so the commands work from any directory.
+ */
+export function getComposeCommand(config: DeployConfig, project: NeexProject): string[] {
+    return ['compose', '-f', getComposeFile(config, project), '-p', getComposeProjectName(config)];
+}
+
+export function getComposeFile(config: DeployConfig, project: NeexProject): string {
+    return path.resolve(project.rootPath, config.docker?.composeFile ?? DEFAULT_COMPOSE_FILE);
+}
+
+/**
+ * Where a path inside the project is found in the app images.
+ */
+export function getContainerPath(project: NeexProject, hostPath: string): string {
+    return path.posix.join(CONTAINER_ROOT, path.relative(project.rootPath, hostPath).split(path.sep).join('/'));
+}
+
+// Compose project names are lowercase
+function getComposeProjectName(config: DeployConfig): string {
+    return config.projectName.toLowerCase();
+}
+
+/**
+ * Runs the apps and Nginx as a docker compose stack instead of host
+ * processes. Images are built from multi-stage Dockerfiles with the
+ * project's package manager; Nginx gets the same site config as on a host,
+ * pointed at the compose services. App ports are published on loopback
+ * only while Nginx fronts them.
+ */
+export class DockerComposeGenerator implements ProcessManager {
+    readonly name = 'Docker Compose';
+    private logger: Logger;
+    private system: SystemUtils;
+    private nginx: NginxGenerator;
+    private certificates: CertificateManager;
+    private templates: TemplateRenderer;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+        this.nginx = new NginxGenerator(logger, system);
+        this.certificates = new CertificateManager(logger, system);
+        this.templates = new TemplateRenderer(logger, system);
+    }
+
+    async install(): Promise<void> {
+        const compose = await this.system.checkCommand('docker')
+            ? await this.system.probeCommand('docker', ['compose', 'version'])
+            : null;
+
+        if (compose?.exitCode === 0) {
+            this.logger.success(`Docker available (${compose.stdout.trim()})`);
+            return;
+        }
+
+        const problem = compose ? 'The docker compose plugin is not installed' : 'Docker is not installed';
+        // A plan can still be made on a machine without Docker
+        if (this.system.isDryRun()) {
+            this.logger.warning(problem);
+            this.system.addPlanNote(`${problem}; it is needed to apply this plan`);
+            return;
+        }
+        throw new Error(`${problem}. See https://docs.docker.com/engine/install/`);
+    }
+
+    async generate(config: DeployConfig, project: NeexProject): Promise<void> {
+        const composeFile = getComposeFile(config, project);
+        const staticClient = project.hasClient && !hasClientProcess(config, project);
+
+        await this.writeIgnoreFile(config, project, composeFile);
+
+        const roles: AppRole[] = [];
+        if (hasClientProcess(config, project)) roles.push('client');
+        if (project.hasServer) roles.push('server');
+
+        for (const role of staticClient && config.nginxConfig ? [...roles, 'client' as const] : roles) {
+            await this.writeGenerated(this.getDockerfile(project, role), await this.generateDockerfile(config, project, role));
+        }
+
+        if (config.nginxConfig) {
+            this.nginx.reportHeaderWarnings(config);
+            await this.writeNginxConfig(config, project, config.ssl && await this.hasCertificate(config));
+        } else if (staticClient) {
+            this.logger.warning('clientMode is static but Nginx is disabled, so nothing will serve the client');
+        }
+
+        await this.writeGenerated(composeFile, await this.templates.render('docker-compose.yml', {
+            config,
+            project,
+            compose: await this.getComposeContext(config, project, roles, composeFile)
+        }));
+
+        this.logger.success(`Docker files generated (${path.relative(project.rootPath, composeFile)})`);
+    }
+
+    async build(config: DeployConfig, project: NeexProject): Promise<void> {
+        this.logger.step('Building images...');
+        await this.system.executeCommand('docker', [...getComposeCommand(config, project), 'build'], project.rootPath);
+        this.logger.success('Images built');
+    }
+
+    /**
+     * Brings the stack up and waits for the healthchecks. A certbot
+     * certificate is issued first through an HTTP-only Nginx, and the TLS
+     * site is swapped in once the certificate exists.
+     */
+    async start(config: DeployConfig, project: NeexProject): Promise<void> {
+        this.logger.step('Starting containers...');
+
+        if (config.nginxConfig && config.ssl) {
+            const reload = ['docker', ...getComposeCommand(config, project), 'exec', '-T', 'nginx', 'nginx', '-s', 'reload'].join(' ');
+
+            if (!await this.hasCertificate(config)) {
+                await this.up(config, project);
+                await this.ensureCertificate(config, reload);
+                await this.writeNginxConfig(config, project, true);
+            } else {
+                await this.ensureCertificate(config, reload);
+            }
+        }
+
+        await this.up(config, project);
+
+        // The site config is mounted, so a changed file does not recreate the container
+        if (config.nginxConfig) {
+            await this.reloadNginx(config, project);
+        }
+
+        this.logger.success('Containers started');
+    }
+
+    async reload(config: DeployConfig, project: NeexProject): Promise<void> {
+        this.logger.step('Updating containers...');
+        await this.up(config, project);
+        this.logger.success('Containers updated');
+    }
+
+    async stop(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void> {
+        await this.compose(config, project, ['stop', ...this.getServices(config, project, app)]);
+    }
+
+    async restart(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void> {
+        await this.compose(config, project, ['restart', ...this.getServices(config, project, app)]);
+    }
+
+    async delete(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void> {
+        await this.compose(config, project, app
+            ? ['rm', '--stop', '--force', ...this.getServices(config, project, app)]
+            : ['down', '--remove-orphans']);
+    }
+
+    async status(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void> {
+        await this.compose(config, project, ['ps', '--all', ...this.getServices(config, project, app)]);
+    }
+
+    async logs(config: DeployConfig, project: NeexProject, options: LogOptions, app?: AppRole): Promise<void> {
+        const args = ['logs'];
+
+        if (options.follow) args.push('--follow');
+        if (options.lines) args.push('--tail', String(options.lines));
+
+        await this.compose(config, project, [...args, ...this.getServices(config, project, app)]);
+    }
+
+    // Published ports are held by Docker's proxy, not by a process of the app
+    async getPids(): Promise<number[]> {
+        return [];
+    }
+
+    getManagementCommands(config: DeployConfig, project: NeexProject): ManagementCommands {
+        const compose = ['docker', ...getComposeCommand(config, project)].join(' ');
+
+        return {
+            status: `${compose} ps --all`,
+            logs: `${compose} logs --tail 20`,
+            restart: `${compose} restart`,
+            stop: `${compose} stop`
+        };
+    }
+
+    /**
+     * Compose services of this project's apps, optionally narrowed to one
+     * role; without a role every service, Nginx included.
+     */
+    private getServices(config: DeployConfig, project: NeexProject, app?: AppRole): string[] {
+        if (!app) return [];
+        // getAppNames rejects roles the project does not run
+        getAppNames(config, project, app);
+        return [app];
+    }
+
+    private async compose(config: DeployConfig, project: NeexProject, args: string[]): Promise<void> {
+        await this.system.executeCommand('docker', [...getComposeCommand(config, project), ...args], project.rootPath);
+    }
+
+    private async up(config: DeployConfig, project: NeexProject): Promise<void> {
+        await this.compose(config, project, ['up', '--detach', '--wait', '--remove-orphans']);
+    }
+
+    private async reloadNginx(config: DeployConfig, project: NeexProject): Promise<void> {
+        const exec = [...getComposeCommand(config, project), 'exec', '-T', 'nginx', 'nginx'];
+        const test = await this.system.captureCommand('docker', [...exec, '-t'], project.rootPath);
+
+        if (test.exitCode !== 0) {
+            const output = (test.stderr || test.stdout).trim();
+            throw new NginxValidationError(`nginx -t failed in the nginx container; it keeps serving the previous configuration:\n  ${output}`);
+        }
+
+        await this.system.executeCommand('docker', [...exec, '-s', 'reload'], project.rootPath);
+    }
+
+    private async ensureCertificate(config: DeployConfig, reloadCommand: string): Promise<void> {
+        try {
+            await this.certificates.ensure(config, reloadCommand);
+        } catch (error) {
+            if (!this.system.isDryRun()) throw error;
+
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.warning(`Certificate: ${message}`);
+            this.system.addPlanNote(`Certificate: ${message}`);
+        }
+    }
+
+    private async hasCertificate(config: DeployConfig): Promise<boolean> {
+        // Only certbot certificates are created after Nginx is up; the others exist before it starts
+        return this.certificates.getSource(config) !== 'certbot' || await this.certificates.exists(config);
+    }
+
+    private getDockerfile(project: NeexProject, role: AppRole): string {
+        return path.join(project.rootPath, DOCKER_DIR, `Dockerfile.${role}`);
+    }
+
+    private getNginxConfigPath(project: NeexProject): string {
+        return path.join(project.rootPath, DOCKER_DIR, 'nginx.conf');
+    }
+
+    private async writeNginxConfig(config: DeployConfig, project: NeexProject, withTls: boolean): Promise<void> {
+        const staticClient = project.hasClient && !hasClientProcess(config, project);
+        const content = await this.nginx.generateNginxConfig(config, project, {
+            withTls,
+            staticRoot: staticClient ? STATIC_ROOT : undefined,
+            upstreamHosts: { client: 'client', server: 'server' }
+        });
+
+        await this.writeGenerated(this.getNginxConfigPath(project), `${GENERATED_MARKER} for ${config.projectName}\n${content}`);
+    }
+
+    private async generateDockerfile(config: DeployConfig, project: NeexProject, role: AppRole): Promise<string> {
+        const commands = PACKAGE_MANAGERS[config.packageManager];
+        const lockfile = await this.findLockfile(project, commands.lockfiles);
+        const appPath = role === 'client' ? project.clientPath : project.serverPath;
+        const port = role === 'client' ? config.clientPort : config.serverPort;
+        const framework = role === 'client' ? project.clientFramework : project.serverFramework;
+
+        if (!lockfile) {
+            this.logger.warning(`No ${commands.lockfiles[0]} found; the ${role} image installs without a lockfile, so versions may drift between builds`);
+        }
+
+        const image: Record<string, unknown> = {
+            role,
+            nodeImage: config.docker?.nodeImage ?? DEFAULT_NODE_IMAGE,
+            nginxImage: config.docker?.nginxImage ?? DEFAULT_NGINX_IMAGE,
+            setup: commands.setup ?? null,
+            install: lockfile ? commands.install : commands.installUnlocked,
+            build: `${config.packageManager} run build`,
+            // vite preview runs from devDependencies
+            prune: framework === 'vite' && hasClientProcess(config, project) ? null : commands.prune ?? null,
+            staticDir: null,
+            port
+        };
+
+        if (role === 'client' && !hasClientProcess(config, project)) {
+            const output = await resolveStaticOutput(this.system, appPath, project.clientFramework, config.apps?.client?.outputDir);
+            image.staticDir = path.relative(project.rootPath, output.root).split(path.sep).join('/');
+            image.staticRoot = STATIC_ROOT;
+        } else {
+            const launch = await this.getLaunchCommand(config, project, role, appPath, port);
+            image.workdir = getContainerPath(project, launch.cwd);
+            image.command = JSON.stringify(launch.command);
+        }
+
+        return this.templates.render('Dockerfile', { config, project, image });
+    }
+
+    /**
+     * The app is started through its package manager scripts, like PM2's
+     * fallback. vite preview ignores PORT and binds to localhost, and Nest's
+     * `start` script needs its CLI, so those two are run directly.
+     */
+    private async getLaunchCommand(config: DeployConfig, project: NeexProject, role: AppRole, appPath: string, port: number): Promise<{ command: string[]; cwd: string }> {
+        const framework = role === 'client' ? project.clientFramework : project.serverFramework;
+
+        if (framework === 'vite') {
+            return {
+                command: ['npx', '--no-install', 'vite', 'preview', '--host', '0.0.0.0', '--port', String(port), '--strictPort'],
+                cwd: appPath
+            };
+        }
+
+        if (framework === 'nestjs') {
+            return { command: ['node', 'dist/main.js'], cwd: appPath };
+        }
+
+        const script = await resolveStartScript(this.system, project.rootPath, appPath, role);
+        return { command: [config.packageManager, ...script.args], cwd: script.cwd };
+    }
+
+    private async getComposeContext(config: DeployConfig, project: NeexProject, roles: AppRole[], composeFile: string): Promise<Record<string, unknown>> {
+        const composeDir = path.dirname(composeFile);
+        const context = path.relative(composeDir, project.rootPath) || '.';
+        const secretsFile = await findRuntimeSecretsFile(config, project, this.system);
+        const name = getComposeProjectName(config);
+
+        const apps = roles.map(role => {
+            const port = role === 'client' ? config.clientPort : config.serverPort;
+            return {
+                role,
+                dockerfile: path.relative(project.rootPath, this.getDockerfile(project, role)).split(path.sep).join('/'),
+                image: `${name}-${role}`,
+                environment: {
+                    ...config.apps?.[role]?.env,
+                    ...getRevisionEnv(config),
+                    NODE_ENV: config.environment,
+                    PORT: String(port)
+                },
+                // Behind Nginx the port is only reachable from the host itself, for health checks
+                publish: config.nginxConfig ? `127.0.0.1:${port}:${port}` : `${port}:${port}`,
+                healthcheck: this.getHealthcheck(port, config.healthCheck?.[role])
+            };
+        });
+
+        return {
+            name,
+            context,
+            restart: config.docker?.restart ?? (config.autoStart ? 'unless-stopped' : 'on-failure'),
+            envFiles: [path.relative(composeDir, path.join(project.rootPath, '.env')), ...(secretsFile ? [secretsFile] : [])],
+            apps,
+            nginx: config.nginxConfig ? this.getNginxService(config, project, apps) : null
+        };
+    }
+
+    private getNginxService(config: DeployConfig, project: NeexProject, apps: Array<{ role: AppRole; healthcheck: unknown }>): Record<string, unknown> {
+        const staticClient = project.hasClient && !hasClientProcess(config, project);
+        const volumes = [`${this.getNginxConfigPath(project)}:/etc/nginx/conf.d/default.conf:ro`];
+
+        if (config.ssl) {
+            const webroot = this.certificates.getWebroot(config);
+            const paths = this.certificates.getPaths(config);
+            // Certbot's live/ files are links into archive/, so the whole directory is needed
+            const certificateDirs = this.certificates.getSource(config) === 'certbot'
+                ? ['/etc/letsencrypt']
+                : [...new Set([paths.certificate, paths.certificateKey, paths.trustedCertificate].filter(Boolean).map(file => path.dirname(file!)))];
+
+            volumes.push(`${webroot}:${webroot}:ro`, ...certificateDirs.map(dir => `${dir}:${dir}:ro`));
+        }
+
+        return {
+            // A static client is baked into the Nginx image
+            dockerfile: staticClient ? path.relative(project.rootPath, this.getDockerfile(project, 'client')).split(path.sep).join('/') : null,
+            image: staticClient ? `${getComposeProjectName(config)}-nginx` : config.docker?.nginxImage ?? DEFAULT_NGINX_IMAGE,
+            ports: config.ssl ? ['80:80', '443:443'] : ['80:80'],
+            volumes,
+            dependsOn: apps.length > 0
+                ? Object.fromEntries(apps.map(app => [app.role, app.healthcheck ? 'service_healthy' : 'service_started']))
+                : null
+        };
+    }
+
+    private getHealthcheck(port: number, check: HealthCheckConfig = {}): Record<string, unknown> | null {
+        if (check.enabled === false) return null;
+
+        const settings = { ...DEFAULT_HEALTH_CHECK, ...check };
+        // Alpine images have no curl, so the probe uses Node's fetch; like the deploy check, any non-5xx passes
+        const passes = check.expectedStatus !== undefined ? `r.status === ${check.expectedStatus}` : 'r.status < 500';
+        const script = `fetch('http://127.0.0.1:${port}${settings.path}').then(r => process.exit(${passes} ? 0 : 1), () => process.exit(1))`;
+
+        return {
+            test: JSON.stringify(['CMD', 'node', '-e', script]),
+            timeout: `${Math.ceil(settings.timeout / 1000)}s`,
+            retries: settings.retries
+        };
+    }
+
+    private async findLockfile(project: NeexProject, lockfiles: string[]): Promise<string | null> {
+        for (const lockfile of lockfiles) {
+            if (await this.system.pathExists(path.join(project.rootPath, lockfile))) {
+                return lockfile;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * The build context is the project root, so a .dockerignore there keeps
+     * node_modules, .env and the secrets key out of the images. An existing
+     * one is left alone but checked for those entries.
+     */
+    private async writeIgnoreFile(config: DeployConfig, project: NeexProject, composeFile: string): Promise<void> {
+        const ignorePath = path.join(project.rootPath, '.dockerignore');
+
+        const existing = await this.system.readFile(ignorePath);
+        if (existing !== null) {
+            const entries = existing.split('\n').map(line => line.trim());
+            const missing = ['.env', '.deploy-neex'].filter(entry => !entries.includes(entry));
+            if (missing.length > 0) {
+                this.logger.warning(`.dockerignore does not exclude ${missing.join(', ')}, so they are copied into the build stage`);
+            }
+            return;
+        }
+
+        await this.system.writeFile(ignorePath, await this.templates.render('dockerignore', {
+            config,
+            project,
+            composeFile: path.relative(project.rootPath, composeFile)
+        }));
+    }
+
+    private async writeGenerated(filePath: string, content: string): Promise<void> {
+        const current = await this.system.readFile(filePath);
+        if (current !== null) {
+            if (!current.startsWith(GENERATED_MARKER)) {
+                throw new Error(`${filePath} was not generated by deploy-neex and would be overwritten. ` +
+                    'Move it away first (docker.composeFile puts the compose file elsewhere)');
+            }
+        }
+
+        await this.system.writeFile(filePath, content);
+    }
+}
@@ -0,0 +1,167 @@
+// src/generators/entry.ts
+import path from 'path';
+import { Framework } from '../types.js';
+import { SystemUtils } from '../utils/system.js';
+
+export interface EntryPoint {
+    // Relative to the app directory, or absolute for binaries in node_modules
+    script: string;
+    args: string[];
+    nodeArgs: string[];
+}
+
+function splitArgs(value: string): string[] {
+    return value.trim().split(/\s+/).filter(Boolean);
+}
+
+// The configured port is passed through PORT, so drop hardcoded -p/--port flags
+function withoutPortFlags(args: string[]): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '-p' || args[i] === '--port') {
+            i++;
+        } else if (!args[i].startsWith('--port=')) {
+            result.push(args[i]);
+        }
+    }
+    return result;
+}
+
+async function findPackageFile(system: SystemUtils, packageName: string, file: string, searchPaths: string[]): Promise<string | null> {
+    for (const dir of searchPaths) {
+        const candidate = path.join(dir, 'node_modules', packageName, file);
+        if (await system.pathExists(candidate)) return candidate;
+    }
+    return null;
+}
+
+async function readPackageJson(system: SystemUtils, dir: string): Promise<any | null> {
+    const content = await system.readFile(path.join(dir, 'package.json'));
+    return content === null ? null : JSON.parse(content);
+}
+
+/**
+ * Works out the Node script behind an app's `start` script, so that PM2
+ * can run it directly (and in cluster mode) instead of through a package
+ * manager. When the start script is not recognised, the detected
+ * framework's own server is used. Returns null when neither gives
+ * something we can run as a single Node script.
+ */
+export async function resolveEntryPoint(system: SystemUtils, appPath: string, rootPath: string, framework?: Framework, port?: number): Promise<EntryPoint | null> {
+    const packageJson = await readPackageJson(system, appPath);
+    if (!packageJson) return null;
+
+    const start: string = packageJson.scripts?.start?.trim() ?? '';
+    const searchPaths = [appPath, rootPath];
+
+    const next = start.match(/^next\s+start\b(.*)$/);
+    if (next) {
+        const bin = await findPackageFile(system, 'next', 'dist/bin/next', searchPaths);
+        if (bin) {
+            return { script: bin, args: ['start', ...withoutPortFlags(splitArgs(next[1]))], nodeArgs: [] };
+        }
+    }
+
+    const node = start.match(/^node\s+((?:--?[\w-]+(?:=\S+)?\s+)*)(\S+\.[cm]?js)\b(.*)$/);
+    if (node) {
+        return { script: node[2], args: splitArgs(node[3]), nodeArgs: splitArgs(node[1]) };
+    }
+
+    const fromFramework = framework ? await resolveFrameworkEntry(system, appPath, searchPaths, framework, port) : null;
+    if (fromFramework) {
+        return fromFramework;
+    }
+
+    if (packageJson.main && await system.pathExists(path.join(appPath, packageJson.main))) {
+        return { script: packageJson.main, args: [], nodeArgs: [] };
+    }
+
+    return null;
+}
+
+async function resolveFrameworkEntry(system: SystemUtils, appPath: string, searchPaths: string[], framework: Framework, port?: number): Promise<EntryPoint | null> {
+    switch (framework) {
+        case 'nextjs': {
+            const bin = await findPackageFile(system, 'next', 'dist/bin/next', searchPaths);
+            return bin ? { script: bin, args: ['start'], nodeArgs: [] } : null;
+        }
+
+        case 'remix': {
+            const bin = await findPackageFile(system, '@remix-run/serve', 'dist/cli.js', searchPaths);
+            // Vite-based Remix builds to build/server, the classic compiler to build/
+            for (const build of ['build/server/index.js', 'build/index.js']) {
+                if (bin && await system.pathExists(path.join(appPath, build))) {
+                    return { script: bin, args: [build], nodeArgs: [] };
+                }
+            }
+            return null;
+        }
+
+        case 'vite': {
+            // vite preview ignores PORT, so the port has to be passed explicitly
+            const bin = await findPackageFile(system, 'vite', 'bin/vite.js', searchPaths);
+            return bin && port !== undefined
+                ? { script: bin, args: ['preview', '--host', '--port', String(port), '--strictPort'], nodeArgs: [] }
+                : null;
+        }
+
+        case 'nestjs':
+            return await system.pathExists(path.join(appPath, 'dist/main.js'))
+                ? { script: 'dist/main.js', args: [], nodeArgs: [] }
+                : null;
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * Package manager invocation used when no entry script can be resolved:
+ * the root `start:<role>` script when the project defines one, otherwise
+ * the app's own `start` script run from its directory.
+ */
+export async function resolveStartScript(system: SystemUtils, rootPath: string, appPath: string, role: string): Promise<{ args: string[]; cwd: string }> {
+    const packageJson = await readPackageJson(system, rootPath);
+
+    if (packageJson?.scripts?.[`start:${role}`]) {
+        return { args: ['run', `start:${role}`], cwd: rootPath };
+    }
+
+    return { args: ['run', 'start'], cwd: appPath };
+}
+
+// Where each framework writes a static export, most likely first
+const STATIC_OUTPUT_DIRS: Partial<Record<Framework, string[]>> = {
+    nextjs: ['out'],
+    vite: ['dist'],
+    remix: ['build/client']
+};
+
+const FALLBACK_OUTPUT_DIRS = ['dist', 'out', 'build/client', 'build'];
+
+export interface StaticOutput {
+    // Absolute directory Nginx serves as the document root
+    root: string;
+    // False until the client has been built
+    exists: boolean;
+}
+
+/**
+ * Finds the directory holding a static client build, i.e. the first
+ * candidate with an index.html. Before the build has run, the configured
+ * or framework default directory is returned with `exists: false`.
+ */
+export async function resolveStaticOutput(system: SystemUtils, appPath: string, framework?: Framework, outputDir?: string): Promise<StaticOutput> {
+    const candidates = outputDir
+        ? [outputDir]
+        : (framework && STATIC_OUTPUT_DIRS[framework]) || FALLBACK_OUTPUT_DIRS;
+
+    for (const candidate of candidates) {
+        const root = path.resolve(appPath, candidate);
+        if (await system.pathExists(path.join(root, 'index.html'))) {
+            return { root, exists: true };
+        }
+    }
+
+    return { root: path.resolve(appPath, candidates[0]), exists: false };
+}
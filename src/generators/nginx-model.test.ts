@@ -0,0 +1,54 @@
+// src/generators/nginx-model.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { block, comment, directive, quote, renderNginx } from './nginx-model.js';
+
+describe('renderNginx', () => {
+    it('renders directives and nested blocks, four spaces per level', () => {
+        const config = renderNginx([
+            block('server', [], [
+                directive('listen', 80),
+                directive('server_name', 'example.com', 'www.example.com'),
+                block('location', ['/'], [directive('proxy_pass', 'http://app_backend')])
+            ])
+        ]);
+
+        assert.equal(config, [
+            'server {',
+            '    listen 80;',
+            '    server_name example.com www.example.com;',
+            '',
+            '    location / {',
+            '        proxy_pass http://app_backend;',
+            '    }',
+            '}'
+        ].join('\n'));
+    });
+
+    it('separates blocks from their neighbours and keeps comments with the next node', () => {
+        const config = renderNginx([
+            directive('a', 1),
+            directive('b', 2),
+            comment('The API'),
+            block('upstream', ['api'], []),
+            directive('c', 3)
+        ]);
+
+        assert.equal(config, 'a 1;\nb 2;\n\n# The API\nupstream api {\n}\n\nc 3;');
+    });
+
+    it('skips optional children that are not set', () => {
+        const ssl = false;
+        const node = block('server', [], [ssl && directive('listen', '443 ssl'), null, undefined, '', directive('listen', 80)]);
+
+        assert.equal(node.children.length, 1);
+        assert.equal(renderNginx([node]), 'server {\n    listen 80;\n}');
+    });
+});
+
+describe('quote', () => {
+    it('escapes quotes and backslashes', () => {
+        assert.equal(quote('max-age=31536000'), '"max-age=31536000"');
+        assert.equal(quote('say "hi" \\ bye'), '"say \\"hi\\" \\\\ bye"');
+    });
+});
@@ -0,0 +1,77 @@
+// src/generators/nginx-model.ts
+
+export interface NginxDirective {
+    kind: 'directive';
+    name: string;
+    args: string[];
+}
+
+export interface NginxBlock {
+    kind: 'block';
+    name: string;
+    args: string[];
+    children: NginxNode[];
+}
+
+export interface NginxComment {
+    kind: 'comment';
+    text: string;
+}
+
+export type NginxNode = NginxDirective | NginxBlock | NginxComment;
+
+// Lets optional children be written as `condition && directive(...)`
+type OptionalNode = NginxNode | false | null | undefined | '';
+
+// Arguments are written as given; use quote() for ones with spaces or quotes
+export function directive(name: string, ...args: Array<string | number>): NginxDirective {
+    return { kind: 'directive', name, args: args.map(String) };
+}
+
+export function block(name: string, args: string[], children: OptionalNode[]): NginxBlock {
+    return { kind: 'block', name, args, children: children.filter((child): child is NginxNode => Boolean(child)) };
+}
+
+export function comment(text: string): NginxComment {
+    return { kind: 'comment', text };
+}
+
+export function quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Renders nodes as Nginx configuration, four spaces per level. Blocks are
+ * separated from their neighbours by a blank line, and a comment sticks to
+ * the node that follows it.
+ */
+export function renderNginx(nodes: NginxNode[], depth: number = 0): string {
+    const indent = '    '.repeat(depth);
+    const lines: string[] = [];
+
+    nodes.forEach((node, index) => {
+        const previous = nodes[index - 1];
+        const startsGroup = node.kind === 'block' || node.kind === 'comment';
+        if (previous && previous.kind !== 'comment' && (startsGroup || previous.kind === 'block')) {
+            lines.push('');
+        }
+
+        switch (node.kind) {
+            case 'comment':
+                lines.push(`${indent}# ${node.text}`);
+                break;
+            case 'directive':
+                lines.push(`${indent}${[node.name, ...node.args].join(' ')};`);
+                break;
+            case 'block':
+                lines.push(`${indent}${[node.name, ...node.args].join(' ')} {`);
+                if (node.children.length > 0) {
+                    lines.push(renderNginx(node.children, depth + 1));
+                }
+                lines.push(`${indent}}`);
+                break;
+        }
+    });
+
+    return lines.join('\n');
+}
@@ -1,26 +1,171 @@
 // src/generators/nginx.ts
-import { DeployConfig, NeexProject } from '../types.js';
+import { AppRole, DeployConfig, Framework, NeexProject, NginxLocationOptions } from '../types.js';
 import { Logger } from '../utils/logger.js';
 import { SystemUtils } from '../utils/system.js';
+import { CertificateManager, getServerNames } from '../certificates.js';
+import { resolveStaticOutput } from './entry.js';
+import { NginxBlock, NginxNode, block, comment, directive, quote, renderNginx } from './nginx-model.js';
+import { checkSecurityHeaders, getSecurityHeaders } from './security-headers.js';
+import { TemplateRenderer } from '../templates.js';
+
+const TLS_CIPHERS = [
+  'ECDHE-ECDSA-AES128-GCM-SHA256',
+  'ECDHE-RSA-AES128-GCM-SHA256',
+  'ECDHE-ECDSA-AES256-GCM-SHA384',
+  'ECDHE-RSA-AES256-GCM-SHA384',
+  'ECDHE-ECDSA-CHACHA20-POLY1305',
+  'ECDHE-RSA-CHACHA20-POLY1305',
+  'DHE-RSA-AES128-GCM-SHA256',
+  'DHE-RSA-AES256-GCM-SHA384'
+].join(':');
+
+const FRAMEWORK_LABELS: Record<Framework, string> = {
+  nextjs: 'Next.js',
+  vite: 'Vite',
+  remix: 'Remix',
+  express: 'Express',
+  fastify: 'Fastify',
+  nestjs: 'NestJS'
+};
+
+// Build output served with content hashes in the file name
+const FRAMEWORK_ASSET_PREFIXES: Partial<Record<Framework, string[]>> = {
+  nextjs: ['/_next/static/'],
+  vite: ['/assets/'],
+  remix: ['/build/', '/assets/']
+};
+
+const DEFAULT_API_PREFIX = '/api';
+const DEFAULT_MAX_BODY_SIZE = '100M';
+// Seconds; idle WebSocket and SSE connections are otherwise closed after 60s
+const STREAMING_TIMEOUT = 3600;
+
+export interface ApiRoute {
+  // Always ends in a slash, e.g. '/api/'
+  prefix: string;
+  strip: boolean;
+}
+
+/**
+ * Where Nginx mounts the server and whether the prefix is removed before
+ * requests reach it.
+ */
+export function getApiRoute(config: DeployConfig): ApiRoute {
+  const prefix = (config.nginx?.api?.prefix ?? DEFAULT_API_PREFIX).replace(/\/+$/, '');
+  return { prefix: `${prefix}/`, strip: config.nginx?.api?.stripPrefix ?? true };
+}
+
+// limit_req zones are global to Nginx, so they are namespaced per project
+function getRateLimitZoneName(config: DeployConfig, name: string): string {
+  return `${config.projectName}_${name}`;
+}
+
+// Upstream names are global to Nginx as well
+function getUpstreamName(config: DeployConfig, role: AppRole): string {
+  return `${config.projectName.replace(/\W/g, '_')}_${role}_backend`;
+}
+
+function getStreamingTimeout(options: NginxLocationOptions): number | undefined {
+  return options.timeout ?? (options.websocket || options.sse ? STREAMING_TIMEOUT : undefined);
+}
+
+// The upstreams' keepalive needs the WebSocket Connection header to be empty for plain requests
+function getConnectionUpgradeVariable(config: DeployConfig): string {
+  return `$${config.projectName.replace(/\W/g, '_')}_connection_upgrade`;
+}
+
+function usesKeepalive(config: DeployConfig): boolean {
+  return Boolean(config.nginx?.upstream?.keepalive);
+}
+
+export interface UpstreamNode {
+  address: string;
+  weight?: number;
+  backup?: boolean;
+  // Kept in the upstream but sent no traffic, e.g. while it is being updated
+  down?: boolean;
+}
+
+/**
+ * One upstream server per entry in `hosts`, all of which run both apps.
+ */
+export function getUpstreamNodes(config: DeployConfig): UpstreamNode[] {
+  return (config.hosts ?? []).map(node => ({
+    address: node.address ?? node.host.replace(/^.*@/, ''),
+    weight: node.weight,
+    backup: node.backup
+  }));
+}
+
+export interface NginxSiteOptions {
+  // Defaults to config.ssl
+  withTls?: boolean;
+  staticRoot?: string;
+  // Where each app is reached, 'localhost' unless set, e.g. a compose service name
+  upstreamHosts?: Partial<Record<AppRole, string>>;
+  // Balanced nodes; getUpstreamNodes(config) unless set
+  nodes?: UpstreamNode[];
+}
+
+export interface NginxLayout {
+  kind: 'sites-enabled' | 'conf.d' | 'servers';
+  configPath: string;
+  // Symlink that enables the site; only the sites-enabled layout has one
+  enabledPath?: string;
+}
+
+export class NginxValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NginxValidationError';
+  }
+}
 
 export class NginxGenerator {
   private logger: Logger;
   private system: SystemUtils;
+  private certificates: CertificateManager;
+  private templates: TemplateRenderer;
 
   constructor(logger: Logger, system: SystemUtils) {
     this.logger = logger;
     this.system = system;
+    this.certificates = new CertificateManager(logger, system);
+    this.templates = new TemplateRenderer(logger, system);
   }
 
   async generate(config: DeployConfig, project: NeexProject): Promise<void> {
-    const nginxConfig = this.generateNginxConfig(config, project);
-    const configPath = this.getConfigPath(config);
-    
-    await this.system.writeFile(configPath, nginxConfig);
-    this.logger.success(`Nginx configuration generated at ${configPath}`);
+    const layout = await this.detectLayout(config);
+    const staticRoot = await this.getStaticRoot(config, project);
+
+    this.reportHeaderWarnings(config);
+
+    if (config.ssl) {
+      if (this.certificates.getSource(config) === 'certbot' && !await this.certificates.exists(config)) {
+        // Certbot needs the ACME challenge served over plain HTTP before
+        // the TLS block (which references the certificate) can be loaded
+        await this.activate(layout, await this.generateNginxConfig(config, project, { withTls: false, staticRoot }));
+        this.logger.info('Enabled HTTP-only configuration for certificate issuance');
+      }
+
+      await this.certificates.ensure(config);
+    }
+
+    const nginxConfig = await this.generateNginxConfig(config, project, { staticRoot });
+    await this.activate(layout, nginxConfig);
+    this.logger.success(`Nginx configuration enabled at ${layout.configPath}`);
     
     // Generate setup instructions
-    const instructions = this.generateSetupInstructions(config);
+    const instructions = await this.templates.render('nginx-setup.md', {
+      config,
+      project,
+      layout,
+      staticRoot: staticRoot ?? null,
+      certificateSource: config.ssl ? this.certificates.getSource(config) : null,
+      certificate: this.certificates.getPaths(config),
+      webroot: this.certificates.getWebroot(config),
+      siteUrl: `${config.ssl ? 'https' : 'http'}://${config.domain}`
+    });
     await this.system.writeFile(
       `${project.rootPath}/nginx-setup.md`,
       instructions
@@ -29,147 +174,428 @@ export class NginxGenerator {
     this.logger.info('Check nginx-setup.md for manual setup steps');
   }
 
-  private generateNginxConfig(config: DeployConfig, project: NeexProject): string {
-    const clientUpstream = project.hasClient ? `
-    upstream client_backend {
-        server localhost:${config.clientPort};
-    }` : '';
-
-    const serverUpstream = project.hasServer ? `
-    upstream server_backend {
-        server localhost:${config.serverPort};
-    }` : '';
-
-    const clientLocation = project.hasClient ? `
-    # Frontend (Next.js)
-    location / {
-        proxy_pass http://client_backend;
-        proxy_http_version 1.1;
-        proxy_set_header Upgrade $http_upgrade;
-        proxy_set_header Connection 'upgrade';
-        proxy_set_header Host $host;
-        proxy_set_header X-Real-IP $remote_addr;
-        proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
-        proxy_set_header X-Forwarded-Proto $scheme;
-        proxy_cache_bypass $http_upgrade;
-    }` : '';
-
-    const serverLocation = project.hasServer ? `
-    # Backend API (Express)
-    location /api/ {
-        proxy_pass http://server_backend/;
-        proxy_http_version 1.1;
-        proxy_set_header Upgrade $http_upgrade;
-        proxy_set_header Connection 'upgrade';
-        proxy_set_header Host $host;
-        proxy_set_header X-Real-IP $remote_addr;
-        proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
-        proxy_set_header X-Forwarded-Proto $scheme;
-        proxy_cache_bypass $http_upgrade;
-    }` : '';
-
-    return `${clientUpstream}${serverUpstream}
-
-server {
-    listen 80;
-    server_name ${config.domain} www.${config.domain};
-    
-    client_max_body_size 100M;
-    
-    # Security headers
-    add_header X-Frame-Options "SAMEORIGIN" always;
-    add_header X-XSS-Protection "1; mode=block" always;
-    add_header X-Content-Type-Options "nosniff" always;
-    add_header Referrer-Policy "no-referrer-when-downgrade" always;
-    add_header Content-Security-Policy "default-src 'self' http: https: data: blob: 'unsafe-inline'" always;
-    ${serverLocation}${clientLocation}
-    
-    # Static files caching
-    location ~* \\.(js|css|png|jpg|jpeg|gif|ico|svg|woff|woff2|ttf|eot)$ {
-        expires 1y;
-        add_header Cache-Control "public, immutable";
-        ${project.hasClient ? 'proxy_pass http://client_backend;' : ''}
+  /**
+   * Re-renders the site with the given upstream nodes, e.g. one marked
+   * down while a rolling deploy updates it, and reloads Nginx. Returns
+   * false without changing anything when the site is not set up yet.
+   */
+  async updateUpstreams(config: DeployConfig, project: NeexProject, nodes: UpstreamNode[]): Promise<boolean> {
+    const layout = await this.detectLayout(config);
+    if (!await this.system.pathExists(layout.configPath)) {
+      return false;
     }
-    
-    # Gzip compression
-    gzip on;
-    gzip_vary on;
-    gzip_min_length 1024;
-    gzip_proxied expired no-cache no-store private must-revalidate auth;
-    gzip_types text/plain text/css text/xml text/javascript application/x-javascript application/javascript application/xml+rss application/json;
-}`;
+
+    const staticRoot = await this.getStaticRoot(config, project);
+    await this.activate(layout, await this.generateNginxConfig(config, project, { staticRoot, nodes }));
+    return true;
   }
 
-  private getConfigPath(config: DeployConfig): string {
-    const os = this.system.getOS();
-    
-    if (os === 'darwin') {
-      return `/usr/local/etc/nginx/servers/${config.projectName}.conf`;
+  reportHeaderWarnings(config: DeployConfig): void {
+    for (const warning of checkSecurityHeaders(config)) {
+      this.logger.warning(`Security headers: ${warning}`);
+      this.system.addPlanNote(`Security headers: ${warning}`);
+    }
+  }
+
+  /**
+   * Document root of a static client. With releases this goes through the
+   * `current` symlink, so switching releases also switches the files served.
+   */
+  private async getStaticRoot(config: DeployConfig, project: NeexProject): Promise<string | undefined> {
+    if (!project.hasClient || config.clientMode !== 'static') return undefined;
+
+    const output = await resolveStaticOutput(this.system, project.clientPath, project.clientFramework, config.apps?.client?.outputDir);
+    return output.root;
+  }
+
+  /**
+   * Finds where this system's Nginx loads site configs from: Debian's
+   * sites-available/sites-enabled pair, a conf.d style include directory
+   * (RHEL, Alpine), or Homebrew's servers/ directory.
+   */
+  async detectLayout(config: DeployConfig): Promise<NginxLayout> {
+    const name = config.projectName;
+
+    if (await this.system.pathExists('/etc/nginx/sites-available') && await this.system.pathExists('/etc/nginx/sites-enabled')) {
+      return {
+        kind: 'sites-enabled',
+        configPath: `/etc/nginx/sites-available/${name}`,
+        enabledPath: `/etc/nginx/sites-enabled/${name}`
+      };
+    }
+
+    for (const dir of ['/opt/homebrew/etc/nginx/servers', '/usr/local/etc/nginx/servers']) {
+      if (await this.system.pathExists(dir)) {
+        return { kind: 'servers', configPath: `${dir}/${name}.conf` };
+      }
+    }
+
+    // Alpine moved conf.d to http.d in 3.14
+    for (const dir of ['/etc/nginx/http.d', '/etc/nginx/conf.d']) {
+      if (await this.system.pathExists(dir)) {
+        return { kind: 'conf.d', configPath: `${dir}/${name}.conf` };
+      }
+    }
+
+    if (this.system.getOS() === 'darwin') {
+      return { kind: 'servers', configPath: `/usr/local/etc/nginx/servers/${name}.conf` };
+    }
+
+    return {
+      kind: 'sites-enabled',
+      configPath: `/etc/nginx/sites-available/${name}`,
+      enabledPath: `/etc/nginx/sites-enabled/${name}`
+    };
+  }
+
+  /**
+   * Writes and enables the site, validates the whole Nginx config with
+   * `nginx -t` and reloads. If validation fails the previous site config
+   * is put back and nothing is reloaded.
+   */
+  private async activate(layout: NginxLayout, content: string): Promise<void> {
+    const backup = await this.system.readFile(layout.configPath);
+    const wasEnabled = layout.enabledPath ? await this.system.pathExists(layout.enabledPath) : false;
+
+    await this.system.writeFile(layout.configPath, content);
+    if (layout.enabledPath) {
+      await this.system.switchSymlink(layout.configPath, layout.enabledPath);
+    }
+
+    const test = await this.system.captureCommand('nginx', ['-t']);
+
+    if (test.exitCode !== 0) {
+      if (backup !== null) {
+        await this.system.writeFile(layout.configPath, backup);
+      } else {
+        await this.system.removePath(layout.configPath);
+      }
+      if (layout.enabledPath && !wasEnabled) {
+        await this.system.removePath(layout.enabledPath);
+      }
+
+      throw new NginxValidationError(this.describeFailure(test.stderr || test.stdout, layout, content));
+    }
+
+    await this.reload();
+  }
+
+  private describeFailure(output: string, layout: NginxLayout, content: string): string {
+    const lines = output.split('\n').map(line => line.trim()).filter(Boolean);
+    const message = lines.find(line => /\[(emerg|alert|crit|error)\]/.test(line)) ?? lines[0] ?? 'nginx -t failed';
+    const location = message.match(/ in (\S+):(\d+)/);
+
+    const ownFiles = [layout.configPath, layout.enabledPath].filter(Boolean);
+    if (!location || !ownFiles.includes(location[1])) {
+      return `nginx -t failed (previous configuration restored):\n  ${message}`;
+    }
+
+    const lineNumber = parseInt(location[2]);
+    const failingLine = content.split('\n')[lineNumber - 1] ?? '';
+
+    return `nginx -t failed (previous configuration restored):\n  ${message}\n  ${lineNumber} | ${failingLine.trim()}`;
+  }
+
+  private async reload(): Promise<void> {
+    if (this.system.getOS() === 'linux' && await this.system.checkCommand('systemctl')) {
+      await this.system.executeCommand('systemctl', ['reload', 'nginx']);
     } else {
-      return `/etc/nginx/sites-available/${config.projectName}`;
+      await this.system.executeCommand('nginx', ['-s', 'reload']);
     }
+    this.logger.success('Nginx reloaded');
   }
 
-  private generateSetupInstructions(config: DeployConfig): string {
-    const os = this.system.getOS();
-    
-    const instructions = `# Nginx Setup Instructions
+  /**
+   * Renders the site configuration through the `nginx.conf` template, which
+   * lays out the server blocks around sections built from the config. With
+   * TLS the port 80 block only answers ACME challenges and redirects to
+   * HTTPS. A `staticRoot` serves the client from disk instead of proxying
+   * to its process.
+   */
+  async generateNginxConfig(config: DeployConfig, project: NeexProject, options: NginxSiteOptions = {}): Promise<string> {
+    const { withTls = config.ssl, staticRoot, upstreamHosts = {} } = options;
+    const nodes = options.nodes ?? getUpstreamNodes(config);
+    const serversFor = (role: AppRole): UpstreamNode[] => nodes.length > 0 ? nodes : [{ address: upstreamHosts[role] ?? 'localhost' }];
+    const upstreams = [
+      project.hasClient && !staticRoot && this.generateUpstream(config, getUpstreamName(config, 'client'), serversFor('client'), config.clientPort),
+      project.hasServer && this.generateUpstream(config, getUpstreamName(config, 'server'), serversFor('server'), config.serverPort)
+    ].filter((node): node is NginxBlock => Boolean(node));
 
-## 1. Install Nginx (if not already installed)
+    const acme: NginxNode[] = config.ssl ? [
+      comment('ACME challenge for certificate issuance and renewal'),
+      block('location', ['^~', '/.well-known/acme-challenge/'], [
+        directive('root', this.certificates.getWebroot(config)),
+        directive('default_type', quote('text/plain'))
+      ])
+    ] : [];
 
-### Ubuntu/Debian:
-\`\`\`bash
-sudo apt update
-sudo apt install nginx
-\`\`\`
+    return this.templates.render('nginx.conf', {
+      config,
+      project,
+      nginx: {
+        withTls,
+        serverNames: getServerNames(config).join(' '),
+        zones: renderNginx([...this.generateRateLimitZones(config), ...this.generateConnectionUpgradeMap(config)]),
+        upstreams: renderNginx(upstreams),
+        acme: renderNginx(acme, 1),
+        tls: withTls ? renderNginx(this.generateTlsSettings(config), 1) : '',
+        site: renderNginx(this.generateSite(config, project, withTls, staticRoot), 1)
+      }
+    });
+  }
 
-### CentOS/RHEL:
-\`\`\`bash
-sudo yum install nginx
-\`\`\`
+  private generateUpstream(config: DeployConfig, name: string, nodes: UpstreamNode[], port: number): NginxBlock {
+    const settings = config.nginx?.upstream ?? {};
 
-### macOS:
-\`\`\`bash
-brew install nginx
-\`\`\`
+    return block('upstream', [name], [
+      settings.method && settings.method !== 'round-robin' && directive(settings.method),
+      ...nodes.map(node => directive(
+        'server',
+        // IPv6 addresses need brackets before the port
+        `${node.address.includes(':') && !node.address.startsWith('[') ? `[${node.address}]` : node.address}:${port}`,
+        ...(node.weight !== undefined ? [`weight=${node.weight}`] : []),
+        ...(settings.maxFails !== undefined ? [`max_fails=${settings.maxFails}`] : []),
+        ...(settings.failTimeout ? [`fail_timeout=${settings.failTimeout}`] : []),
+        ...(node.backup ? ['backup'] : []),
+        ...(node.down ? ['down'] : [])
+      )),
+      // Has to come after the balancing method
+      settings.keepalive !== undefined && directive('keepalive', settings.keepalive)
+    ]);
+  }
 
-## 2. Copy configuration
+  private generateConnectionUpgradeMap(config: DeployConfig): NginxNode[] {
+    if (!usesKeepalive(config)) return [];
 
-### Linux:
-\`\`\`bash
-sudo cp ${this.getConfigPath(config)} /etc/nginx/sites-available/${config.projectName}
-sudo ln -s /etc/nginx/sites-available/${config.projectName} /etc/nginx/sites-enabled/
-\`\`\`
+    return [
+      comment('WebSocket upgrades without closing kept-alive upstream connections'),
+      block('map', ['$http_upgrade', getConnectionUpgradeVariable(config)], [
+        directive('default', 'upgrade'),
+        directive("''", "''")
+      ])
+    ];
+  }
 
-### macOS:
-Configuration is already in the correct location.
+  private generateSite(config: DeployConfig, project: NeexProject, withTls: boolean, staticRoot?: string): NginxNode[] {
+    const headers = getSecurityHeaders(config, withTls)
+      .map(header => directive('add_header', header.name, quote(header.value), 'always'));
 
-## 3. Test and restart Nginx
+    return [
+      directive('client_max_body_size', config.nginx?.clientMaxBodySize ?? DEFAULT_MAX_BODY_SIZE),
+      comment(`Security headers (${config.nginx?.headers?.profile ?? 'default'} profile)`),
+      ...headers,
+      ...this.generateApiLocation(config, project),
+      ...this.generateExtraLocations(config, project, staticRoot),
+      ...(staticRoot ? this.generateStaticClient(project, staticRoot) : this.generateClientLocation(config, project)),
+      ...this.generateStaticLocations(config, project, Boolean(staticRoot), headers),
+      comment('Gzip compression'),
+      directive('gzip', 'on'),
+      directive('gzip_vary', 'on'),
+      directive('gzip_min_length', 1024),
+      directive('gzip_proxied', 'expired', 'no-cache', 'no-store', 'private', 'must-revalidate', 'auth'),
+      directive('gzip_types', 'text/plain', 'text/css', 'text/xml', 'text/javascript', 'application/x-javascript',
+        'application/javascript', 'application/xml+rss', 'application/json')
+    ];
+  }
 
-\`\`\`bash
-sudo nginx -t
-sudo systemctl restart nginx  # Linux
-# or
-sudo brew services restart nginx  # macOS
-\`\`\`
+  private generateRateLimitZones(config: DeployConfig): NginxNode[] {
+    const zones = Object.entries(config.nginx?.rateLimits ?? {});
+    if (zones.length === 0) return [];
 
-## 4. Setup SSL (Optional but recommended)
+    return [
+      comment('Rate limit zones'),
+      ...zones.map(([name, zone]) => directive(
+        'limit_req_zone',
+        zone.key ?? '$binary_remote_addr',
+        `zone=${getRateLimitZoneName(config, name)}:${zone.size ?? '10m'}`,
+        `rate=${zone.rate}`
+      ))
+    ];
+  }
+
+  private generateApiLocation(config: DeployConfig, project: NeexProject): NginxNode[] {
+    if (!project.hasServer) return [];
+
+    const api = config.nginx?.api ?? {};
+    const route = getApiRoute(config);
 
-\`\`\`bash
-sudo apt install certbot python3-certbot-nginx  # Ubuntu/Debian
-sudo certbot --nginx -d ${config.domain}
-\`\`\`
+    if (route.prefix === '/' && project.hasClient) {
+      throw new Error("nginx.api.prefix cannot be '/' while the client is served at '/'");
+    }
+
+    return [
+      comment(`Backend API (${FRAMEWORK_LABELS[project.serverFramework ?? 'express']})`),
+      this.generateProxyLocation(config, ['^~', route.prefix], this.getProxyTarget(config, 'server', route.strip), {
+        ...api,
+        // Upgrade headers are always passed to the API; long timeouts only when asked for
+        websocket: api.websocket ?? true,
+        timeout: getStreamingTimeout(api)
+      })
+    ];
+  }
 
-## 5. Configure firewall
+  private generateExtraLocations(config: DeployConfig, project: NeexProject, staticRoot?: string): NginxNode[] {
+    return (config.nginx?.locations ?? []).flatMap((location, index) => {
+      if (location.proxy === 'client' && (!project.hasClient || staticRoot)) {
+        throw new Error(`nginx.locations[${index}] proxies to the client, which ${staticRoot ? 'is served statically' : 'this project does not have'}`);
+      }
+      if (location.proxy === 'server' && !project.hasServer) {
+        throw new Error(`nginx.locations[${index}] proxies to the server, which this project does not have`);
+      }
+
+      const strip = location.stripPrefix ?? false;
+      // Stripping replaces the matched prefix with '/', so the prefix has to end in one
+      const locationPath = strip && !location.path.endsWith('/') ? `${location.path}/` : location.path;
+      const kind = location.websocket ? 'WebSocket' : location.sse ? 'Server-sent events' : 'Proxy';
+
+      return [
+        comment(`${kind}: ${locationPath} -> ${location.proxy}`),
+        this.generateProxyLocation(config, ['^~', locationPath], this.getProxyTarget(config, location.proxy, strip), {
+          ...location,
+          timeout: getStreamingTimeout(location)
+        })
+      ];
+    });
+  }
+
+  private generateClientLocation(config: DeployConfig, project: NeexProject): NginxNode[] {
+    if (!project.hasClient) return [];
+
+    return [
+      comment(`Frontend (${FRAMEWORK_LABELS[project.clientFramework ?? 'nextjs']})`),
+      // No ^~ here, so the asset locations below still match under /
+      this.generateProxyLocation(config, ['/'], `http://${getUpstreamName(config, 'client')}`, { websocket: true })
+    ];
+  }
+
+  /**
+   * A proxied location. WebSocket locations pass the upgrade handshake
+   * through, SSE locations disable buffering so events are not held back.
+   */
+  private generateProxyLocation(config: DeployConfig, match: string[], target: string, options: NginxLocationOptions): NginxBlock {
+    const { basicAuth, rateLimit } = options;
+    const upstream = target.match(/^http:\/\/([^/:]+)/)?.[1];
+    const keepalive = usesKeepalive(config) && (upstream === getUpstreamName(config, 'client') || upstream === getUpstreamName(config, 'server'));
+
+    return block('location', match, [
+      basicAuth && directive('auth_basic', quote(basicAuth.realm ?? 'Restricted')),
+      basicAuth && directive('auth_basic_user_file', basicAuth.userFile),
+      rateLimit && directive(
+        'limit_req',
+        `zone=${getRateLimitZoneName(config, rateLimit.zone)}`,
+        ...(rateLimit.burst !== undefined ? [`burst=${rateLimit.burst}`] : []),
+        ...(rateLimit.nodelay ? ['nodelay'] : [])
+      ),
+      rateLimit && directive('limit_req_status', 429),
+      options.maxBodySize && directive('client_max_body_size', options.maxBodySize),
+      directive('proxy_pass', target),
+      directive('proxy_http_version', '1.1'),
+      options.websocket && directive('proxy_set_header', 'Upgrade', '$http_upgrade'),
+      options.websocket && directive('proxy_set_header', 'Connection', keepalive ? getConnectionUpgradeVariable(config) : quote('upgrade')),
+      // HTTP/1.1 keep-alive to the upstream, rather than the default "close"
+      !options.websocket && (options.sse || keepalive) && directive('proxy_set_header', 'Connection', quote('')),
+      directive('proxy_set_header', 'Host', '$host'),
+      directive('proxy_set_header', 'X-Real-IP', '$remote_addr'),
+      directive('proxy_set_header', 'X-Forwarded-For', '$proxy_add_x_forwarded_for'),
+      directive('proxy_set_header', 'X-Forwarded-Proto', '$scheme'),
+      options.websocket && directive('proxy_cache_bypass', '$http_upgrade'),
+      options.sse && directive('proxy_buffering', 'off'),
+      options.sse && directive('proxy_cache', 'off'),
+      options.timeout !== undefined && directive('proxy_read_timeout', `${options.timeout}s`),
+      options.timeout !== undefined && directive('proxy_send_timeout', `${options.timeout}s`)
+    ]);
+  }
+
+  // A URI on proxy_pass replaces the matched prefix; without one the full path is passed on
+  private getProxyTarget(config: DeployConfig, proxy: string, strip: boolean): string {
+    if (proxy === 'client' || proxy === 'server') {
+      return `http://${getUpstreamName(config, proxy)}${strip ? '/' : ''}`;
+    }
+
+    const url = new URL(proxy);
+    if (url.pathname !== '/' || proxy.endsWith('/')) {
+      return proxy;
+    }
+    return strip ? `${proxy}/` : proxy;
+  }
+
+  /**
+   * Serves an exported client build. Paths that are not files fall back to
+   * index.html so client-side routes resolve, and precompressed `.gz`
+   * files next to the originals are sent when the browser accepts them.
+   */
+  private generateStaticClient(project: NeexProject, staticRoot: string): NginxNode[] {
+    const label = project.clientFramework ? `${FRAMEWORK_LABELS[project.clientFramework]}, static` : 'static';
+
+    return [
+      comment(`Frontend (${label})`),
+      directive('root', staticRoot),
+      directive('index', 'index.html'),
+      directive('gzip_static', 'on'),
+      block('location', ['/'], [directive('try_files', '$uri', '$uri.html', '$uri/', '/index.html')]),
+      comment('The entry document must be revalidated, or browsers keep requesting old asset hashes.'),
+      comment('expires rather than add_header, which would drop the security headers above'),
+      block('location', ['=', '/index.html'], [directive('expires', 'epoch')])
+    ];
+  }
+
+  /**
+   * Long-lived caching for the client's build assets. Known frameworks get
+   * their fingerprinted output directories; anything else falls back to
+   * matching static file extensions. Static clients serve them from disk,
+   * where a missing asset is a 404 rather than the SPA fallback.
+   */
+  private generateStaticLocations(config: DeployConfig, project: NeexProject, fromDisk: boolean, headers: NginxNode[]): NginxNode[] {
+    if (!project.hasClient) return [];
+
+    const prefixes = project.clientFramework ? FRAMEWORK_ASSET_PREFIXES[project.clientFramework] ?? [] : [];
+    const source = fromDisk
+      ? [directive('try_files', '$uri', '=404')]
+      : [
+        directive('proxy_pass', `http://${getUpstreamName(config, 'client')}`),
+        ...(usesKeepalive(config) ? [directive('proxy_http_version', '1.1'), directive('proxy_set_header', 'Connection', quote(''))] : [])
+      ];
+    // An add_header in a location replaces the server's, so the security headers are repeated
+    const caching = [directive('expires', '1y'), directive('add_header', 'Cache-Control', quote('public, immutable')), ...headers, ...source];
+
+    if (prefixes.length === 0) {
+      return [
+        comment('Static files caching'),
+        block('location', ['~*', '\\.(js|css|png|jpg|jpeg|gif|ico|svg|woff|woff2|ttf|eot)$'], caching)
+      ];
+    }
+
+    return prefixes.flatMap(prefix => [
+      comment(`Fingerprinted ${FRAMEWORK_LABELS[project.clientFramework!]} assets`),
+      block('location', ['^~', prefix], caching)
+    ]);
+  }
 
-\`\`\`bash
-sudo ufw allow 'Nginx Full'  # Ubuntu/Debian
-\`\`\`
+  private generateTlsSettings(config: DeployConfig): NginxNode[] {
+    const paths = this.certificates.getPaths(config);
 
-Your site will be available at: http://${config.domain}
-`;
+    // Self-signed certificates have no OCSP responder to staple
+    const stapling = paths.trustedCertificate ? [
+      comment('OCSP stapling'),
+      directive('ssl_stapling', 'on'),
+      directive('ssl_stapling_verify', 'on'),
+      directive('ssl_trusted_certificate', paths.trustedCertificate),
+      directive('resolver', '1.1.1.1', '8.8.8.8', 'valid=300s'),
+      directive('resolver_timeout', '5s')
+    ] : [];
 
-    return instructions;
+    return [
+      directive('ssl_certificate', paths.certificate),
+      directive('ssl_certificate_key', paths.certificateKey),
+      directive('ssl_session_timeout', '1d'),
+      directive('ssl_session_cache', 'shared:SSL:10m'),
+      directive('ssl_session_tickets', 'off'),
+      comment('Mozilla "intermediate" profile'),
+      directive('ssl_protocols', 'TLSv1.2', 'TLSv1.3'),
+      directive('ssl_ciphers', TLS_CIPHERS),
+      directive('ssl_prefer_server_ciphers', 'off'),
+      ...stapling
+    ];
   }
 
   async install(): Promise<void> {
@@ -1,83 +1,117 @@
 // src/generators/pm2.ts
-import { DeployConfig, NeexProject } from '../types.js';
+import path from 'path';
+import { AppRole, DeployConfig, NeexProject } from '../types.js';
 import { Logger } from '../utils/logger.js';
 import { SystemUtils } from '../utils/system.js';
+import { LogOptions, ManagementCommands, ProcessManager, getAppNames, hasClientProcess } from './process-manager.js';
+import { resolveEntryPoint, resolveStartScript } from './entry.js';
+import { findRuntimeSecretsFile } from '../secrets.js';
+import { getRevisionEnv } from '../git.js';
+import { TemplateRenderer } from '../templates.js';
 
 interface PM2AppConfig {
   name: string;
   script: string;
   args: string;
   cwd: string;
-  instances: number;
+  exec_mode: 'fork' | 'cluster';
+  instances: number | 'max';
   autorestart: boolean;
   watch: boolean;
   max_memory_restart: string;
-  env: {
-    NODE_ENV: string;
-    PORT: number;
-  };
+  node_args?: string[];
+  kill_timeout?: number;
+  wait_ready?: boolean;
+  listen_timeout?: number;
+  cron_restart?: string;
+  env: Record<string, string | number>;
 }
 
-export class PM2Generator {
+export class PM2Generator implements ProcessManager {
+    readonly name = 'PM2';
     private logger: Logger;
     private system: SystemUtils;
+    private templates: TemplateRenderer;
 
     constructor(logger: Logger, system: SystemUtils) {
         this.logger = logger;
         this.system = system;
+        this.templates = new TemplateRenderer(logger, system);
     }
 
     async generate(config: DeployConfig, project: NeexProject): Promise<void> {
-        const ecosystemConfig = this.generateEcosystemConfig(config, project);
+        const apps: PM2AppConfig[] = [];
+
+        if (hasClientProcess(config, project)) {
+            apps.push(await this.buildAppConfig(config, project, 'client'));
+        }
+        if (project.hasServer) {
+            apps.push(await this.buildAppConfig(config, project, 'server'));
+        }
 
+        const secretsFile = await findRuntimeSecretsFile(config, project, this.system);
         await this.system.writeFile(
             `${project.rootPath}/ecosystem.config.js`,
-            ecosystemConfig
+            await this.templates.render('ecosystem.config.js', { config, project, apps, secretsFile })
         );
 
         this.logger.success('PM2 ecosystem.config.js generated');
     }
 
-    private generateEcosystemConfig(config: DeployConfig, project: NeexProject): string {
-        const apps: PM2AppConfig[] = [];
+    /**
+     * Runs the app's real entry script when it can be resolved, which lets
+     * PM2 use cluster mode and `pm2 reload` restart workers one at a time.
+     * Otherwise the app is started through the package manager in fork mode.
+     */
+    private async buildAppConfig(config: DeployConfig, project: NeexProject, role: AppRole): Promise<PM2AppConfig> {
+        const runtime = config.apps?.[role] ?? {};
+        const appPath = role === 'client' ? project.clientPath : project.serverPath;
+        const port = role === 'client' ? config.clientPort : config.serverPort;
+        const framework = role === 'client' ? project.clientFramework : project.serverFramework;
+        const entry = await resolveEntryPoint(this.system, appPath, project.rootPath, framework, port);
+        const fallback = entry ? null : await resolveStartScript(this.system, project.rootPath, appPath, role);
 
-        if (project.hasClient) {
-            apps.push({
-                name: `${config.projectName}-client`,
+        const launch = entry
+            ? {
+                script: entry.script,
+                args: entry.args.join(' '),
+                cwd: appPath,
+                exec_mode: runtime.execMode ?? 'cluster' as const,
+                instances: runtime.instances ?? 1
+            }
+            : {
                 script: config.packageManager,
-                args: 'run start:client',
-                cwd: project.rootPath,
-                instances: 1,
-                autorestart: true,
-                watch: false,
-                max_memory_restart: '1G',
-                env: {
-                    NODE_ENV: config.environment,
-                    PORT: config.clientPort
-                }
-            });
-        }
+                args: fallback!.args.join(' '),
+                cwd: fallback!.cwd,
+                exec_mode: 'fork' as const,
+                instances: 1
+            };
 
-        if (project.hasServer) {
-            apps.push({
-                name: `${config.projectName}-server`,
-                script: config.packageManager,
-                args: 'run start:server',
-                cwd: project.rootPath,
-                instances: 1,
-                autorestart: true,
-                watch: false,
-                max_memory_restart: '1G',
-                env: {
-                    NODE_ENV: config.environment,
-                    PORT: config.serverPort
-                }
-            });
+        if (!entry && (runtime.execMode === 'cluster' || (runtime.instances ?? 1) !== 1)) {
+            this.logger.warning(`Could not resolve the ${role} entry script; running a single forked instance via ${config.packageManager}`);
         }
 
-        return `module.exports = {
-  apps: ${JSON.stringify(apps, null, 2)}
-};`;
+        const nodeArgs = [...(entry?.nodeArgs ?? []), ...(runtime.nodeArgs ?? [])];
+        this.logger.info(`${role}: ${launch.exec_mode} mode, ${launch.instances} instance(s), ${launch.script}`);
+
+        return {
+            name: getAppNames(config, project, role)[0],
+            ...launch,
+            autorestart: true,
+            watch: false,
+            max_memory_restart: runtime.maxMemory ?? '1G',
+            node_args: nodeArgs.length > 0 ? nodeArgs : undefined,
+            kill_timeout: runtime.killTimeout,
+            wait_ready: runtime.waitReady,
+            listen_timeout: runtime.listenTimeout,
+            cron_restart: runtime.cronRestart,
+            env: {
+                ...runtime.env,
+                ...getRevisionEnv(config),
+                NODE_ENV: config.environment,
+                PORT: port
+            }
+        };
     }
 
     async install(): Promise<void> {
@@ -94,13 +128,9 @@ export class PM2Generator {
         this.logger.step('Starting PM2 applications...');
 
         try {
-            // Stop existing processes if any
-            await this.system.executeCommand('pm2', ['delete', 'all'], project.rootPath).catch(() => {
-                // Ignore errors if no processes exist
-            });
-
-            // Start new processes
-            await this.system.executeCommand('pm2', ['start', 'ecosystem.config.js'], project.rootPath);
+            // Start or gracefully reload only the apps in this ecosystem file;
+            // other PM2 processes on the host are left alone
+            await this.system.executeCommand('pm2', ['startOrReload', 'ecosystem.config.js', '--update-env'], project.rootPath);
             await this.system.executeCommand('pm2', ['save']);
 
             if (config.autoStart) {
@@ -119,36 +149,117 @@ export class PM2Generator {
         }
     }
 
-    async stop(): Promise<void> {
-        this.logger.step('Stopping PM2 applications...');
+    async reload(config: DeployConfig, project: NeexProject): Promise<void> {
+        this.logger.step('Reloading PM2 applications...');
         try {
-            await this.system.executeCommand('pm2', ['stop', 'all']);
-            this.logger.success('PM2 applications stopped');
+            await this.system.executeCommand('pm2', ['startOrReload', 'ecosystem.config.js', '--update-env'], project.rootPath);
+            await this.system.executeCommand('pm2', ['save']);
+            this.logger.success('PM2 applications reloaded');
         } catch (error: any) {
-            this.logger.error(`Failed to stop PM2 applications: ${error.message}`);
+            this.logger.error(`Failed to reload PM2 applications: ${error.message}`);
             throw error;
         }
     }
 
-    async restart(): Promise<void> {
-        this.logger.step('Restarting PM2 applications...');
-        try {
-            await this.system.executeCommand('pm2', ['restart', 'all']);
-            this.logger.success('PM2 applications restarted');
-        } catch (error: any) {
-            this.logger.error(`Failed to restart PM2 applications: ${error.message}`);
-            throw error;
+    async stop(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void> {
+        await this.runForApps('stop', 'Stopping', 'stopped', getAppNames(config, project, app));
+    }
+
+    async restart(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void> {
+        await this.runForApps('restart', 'Restarting', 'restarted', getAppNames(config, project, app));
+    }
+
+    async delete(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void> {
+        await this.runForApps('delete', 'Deleting', 'deleted', getAppNames(config, project, app));
+        await this.system.executeCommand('pm2', ['save']);
+    }
+
+    async status(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void> {
+        const names = getAppNames(config, project, app);
+        const result = await this.system.probeCommand('pm2', ['jlist']);
+
+        if (result.exitCode !== 0) {
+            throw new Error(result.stderr || 'pm2 jlist failed. Is PM2 installed?');
+        }
+
+        const processes: any[] = JSON.parse(result.stdout || '[]');
+        const rows = processes.filter(proc => names.includes(proc.name));
+
+        if (rows.length === 0) {
+            this.logger.warning(`No PM2 processes found for ${names.join(', ')}`);
+            return;
+        }
+
+        console.table(rows.map(proc => ({
+            name: proc.name,
+            id: proc.pm_id,
+            mode: proc.pm2_env?.exec_mode,
+            status: proc.pm2_env?.status,
+            restarts: proc.pm2_env?.restart_time,
+            cpu: `${proc.monit?.cpu ?? 0}%`,
+            memory: `${Math.round((proc.monit?.memory ?? 0) / 1024 / 1024)}MB`
+        })));
+    }
+
+    async getPids(config: DeployConfig, project: NeexProject, app: AppRole): Promise<number[]> {
+        const [name] = getAppNames(config, project, app);
+        const result = await this.system.probeCommand('pm2', ['jlist']);
+        if (result.exitCode !== 0) return [];
+
+        const processes: any[] = JSON.parse(result.stdout || '[]');
+        const pids = processes
+            .filter(proc => proc.name === name && proc.pid > 0)
+            .map(proc => proc.pid as number);
+
+        // Cluster workers share a socket that the PM2 daemon itself listens on
+        if (processes.some(proc => proc.name === name && proc.pm2_env?.exec_mode === 'cluster_mode')) {
+            // PM2_HOME only says something about the daemon on this machine
+            const pm2Home = (!this.system.isRemote() && process.env.PM2_HOME) || path.join(this.system.getHomeDir(), '.pm2');
+            const daemonPid = await this.system.readFile(path.join(pm2Home, 'pm2.pid'));
+            if (daemonPid !== null) {
+                pids.push(parseInt(daemonPid));
+            }
         }
+
+        return pids;
+    }
+
+    async logs(config: DeployConfig, project: NeexProject, options: LogOptions, app?: AppRole): Promise<void> {
+        const args = ['logs', this.getLogFilter(getAppNames(config, project, app))];
+
+        if (options.follow === false) args.push('--nostream');
+        if (options.lines) args.push('--lines', String(options.lines));
+
+        await this.system.executeCommand('pm2', args);
+    }
+
+    getManagementCommands(config: DeployConfig, project: NeexProject): ManagementCommands {
+        const names = getAppNames(config, project);
+
+        return {
+            status: `pm2 status`,
+            logs: `pm2 logs '${this.getLogFilter(names)}' --lines 20 --nostream`,
+            restart: `pm2 restart ${names.join(' ')}`,
+            // Saved, so that a reboot does not resurrect them
+            stop: `pm2 stop ${names.join(' ')} && pm2 save`
+        };
+    }
+
+    // pm2 logs takes a single app name or a /regex/ over names
+    private getLogFilter(names: string[]): string {
+        return names.length === 1 ? names[0] : `/^(${names.join('|')})$/`;
     }
 
-    async delete(): Promise<void> {
-        this.logger.step('Deleting PM2 applications...');
+    private async runForApps(action: string, verb: string, done: string, names: string[]): Promise<void> {
+        this.logger.step(`${verb} PM2 applications (${names.join(', ')})...`);
         try {
-            await this.system.executeCommand('pm2', ['delete', 'all']);
-            this.logger.success('PM2 applications deleted');
+            for (const name of names) {
+                await this.system.executeCommand('pm2', [action, name]);
+            }
+            this.logger.success(`PM2 applications ${done}`);
         } catch (error: any) {
-            this.logger.error(`Failed to delete PM2 applications: ${error.message}`);
+            this.logger.error(`Failed to ${action} PM2 applications: ${error.message}`);
             throw error;
         }
     }
-}
\ No newline at end of file
+}
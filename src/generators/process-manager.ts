@@ -0,0 +1,84 @@
+// src/generators/process-manager.ts
+import { AppRole, DeployConfig, NeexProject } from '../types.js';
+import { Logger } from '../utils/logger.js';
+import { SystemUtils } from '../utils/system.js';
+import { DockerComposeGenerator } from './docker.js';
+import { PM2Generator } from './pm2.js';
+import { SystemdGenerator } from './systemd.js';
+
+export interface LogOptions {
+    follow?: boolean;
+    lines?: number;
+}
+
+// Shell lines used by the generated status.sh/restart.sh scripts and to retire a blue/green colour
+export interface ManagementCommands {
+    status: string;
+    logs: string;
+    restart: string;
+    stop: string;
+}
+
+/**
+ * A backend that runs the client and server apps. The deployer and every
+ * CLI command go through this interface, never a concrete backend.
+ * Operations only touch this project's apps; `app` narrows them further
+ * to just the client or the server.
+ */
+export interface ProcessManager {
+    readonly name: string;
+    install(): Promise<void>;
+    generate(config: DeployConfig, project: NeexProject): Promise<void>;
+    start(config: DeployConfig, project: NeexProject): Promise<void>;
+    reload(config: DeployConfig, project: NeexProject): Promise<void>;
+    stop(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void>;
+    restart(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void>;
+    delete(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void>;
+    status(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void>;
+    logs(config: DeployConfig, project: NeexProject, options: LogOptions, app?: AppRole): Promise<void>;
+    // Processes that may hold the app's listening socket; empty when it is not running
+    getPids(config: DeployConfig, project: NeexProject, app: AppRole): Promise<number[]>;
+    getManagementCommands(config: DeployConfig, project: NeexProject): ManagementCommands;
+}
+
+export function createProcessManager(config: DeployConfig, logger: Logger, system: SystemUtils): ProcessManager {
+    // Containers replace the host process manager altogether
+    if (config.target === 'docker') {
+        return new DockerComposeGenerator(logger, system);
+    }
+
+    switch (config.processManager ?? 'pm2') {
+        case 'systemd':
+            return new SystemdGenerator(logger, system);
+        case 'pm2':
+            return new PM2Generator(logger, system);
+    }
+}
+
+/**
+ * Whether the client runs as a process; a static client is served by
+ * Nginx straight from its build output.
+ */
+export function hasClientProcess(config: DeployConfig, project: NeexProject): boolean {
+    return project.hasClient && config.clientMode !== 'static';
+}
+
+/**
+ * Names of the apps this project runs, e.g. `shop-client` and `shop-server`
+ * (`shop-server-green` for a blue/green colour), optionally narrowed to one
+ * role.
+ */
+export function getAppNames(config: DeployConfig, project: NeexProject, app?: AppRole): string[] {
+    const suffix = config.colour ? `-${config.colour}` : '';
+    const names: string[] = [];
+    if (hasClientProcess(config, project) && (!app || app === 'client')) names.push(`${config.projectName}-client${suffix}`);
+    if (project.hasServer && (!app || app === 'server')) names.push(`${config.projectName}-server${suffix}`);
+
+    if (app && names.length === 0) {
+        throw new Error(app === 'client' && project.hasClient
+            ? 'The client is served statically by Nginx and has no process'
+            : `This project has no ${app} app`);
+    }
+
+    return names;
+}
@@ -0,0 +1,111 @@
+// src/generators/security-headers.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DeployConfig, SecurityHeadersConfig } from '../types.js';
+import { buildCsp, checkSecurityHeaders, getSecurityHeaders } from './security-headers.js';
+
+function configWith(headers: SecurityHeadersConfig, ssl: boolean = true): DeployConfig {
+    return { ssl, nginx: { headers } } as DeployConfig;
+}
+
+function headerMap(config: DeployConfig, withTls: boolean = true): Record<string, string> {
+    return Object.fromEntries(getSecurityHeaders(config, withTls).map(header => [header.name, header.value]));
+}
+
+describe('getSecurityHeaders', () => {
+    it('sends the default profile unless another is set', () => {
+        const headers = headerMap({ ssl: true } as DeployConfig);
+
+        assert.equal(headers['X-Frame-Options'], 'SAMEORIGIN');
+        assert.equal(headers['Strict-Transport-Security'], 'max-age=31536000');
+        assert.equal(headers['Permissions-Policy'], 'camera=(), microphone=(), geolocation=()');
+        assert.match(headers['Content-Security-Policy'], /^default-src 'self'; script-src 'self' 'unsafe-inline';/);
+        assert.match(headers['Content-Security-Policy'], /; upgrade-insecure-requests$/);
+        assert.equal(headers['X-XSS-Protection'], undefined);
+    });
+
+    it('leaves HSTS and upgrade-insecure-requests out without TLS', () => {
+        const headers = headerMap(configWith({ profile: 'strict' }), false);
+
+        assert.equal(headers['Strict-Transport-Security'], undefined);
+        assert.doesNotMatch(headers['Content-Security-Policy'], /upgrade-insecure-requests/);
+    });
+
+    it('applies CSP overrides per directive', () => {
+        const headers = headerMap(configWith({
+            csp: { 'script-src': ["'self'", 'https://cdn.example.com'], 'font-src': false, 'img-src': true }
+        }));
+        const csp = headers['Content-Security-Policy'];
+
+        assert.match(csp, /script-src 'self' https:\/\/cdn\.example\.com;/);
+        assert.doesNotMatch(csp, /font-src/);
+        assert.match(csp, /img-src 'self' data: blob: https:;/);
+    });
+
+    it('sends the CSP as report-only or not at all', () => {
+        assert.ok(headerMap(configWith({ cspReportOnly: true }))['Content-Security-Policy-Report-Only']);
+        assert.equal(headerMap(configWith({ csp: false }))['Content-Security-Policy'], undefined);
+    });
+
+    it('merges HSTS and permissions policy settings into the profile', () => {
+        const headers = headerMap(configWith({
+            profile: 'strict',
+            hsts: { maxAge: 600 },
+            permissionsPolicy: { geolocation: ['self', 'https://maps.example.com'] },
+            crossOriginEmbedderPolicy: false
+        }));
+
+        assert.equal(headers['Strict-Transport-Security'], 'max-age=600; includeSubDomains; preload');
+        assert.match(headers['Permissions-Policy'], /geolocation=\(self "https:\/\/maps\.example\.com"\)/);
+        assert.equal(headers['Cross-Origin-Embedder-Policy'], undefined);
+        assert.equal(headers['Cross-Origin-Opener-Policy'], 'same-origin');
+    });
+
+    it('keeps the legacy headers as they were', () => {
+        const headers = headerMap(configWith({ profile: 'legacy' }));
+
+        assert.equal(headers['X-XSS-Protection'], '1; mode=block');
+        assert.equal(headers['Content-Security-Policy'], "default-src 'self' http: https: data: blob: 'unsafe-inline'");
+        assert.equal(headers['Strict-Transport-Security'], undefined);
+    });
+});
+
+describe('buildCsp', () => {
+    it('renders bare directives without sources', () => {
+        assert.equal(buildCsp({ 'default-src': ["'self'"], 'upgrade-insecure-requests': [] }), "default-src 'self'; upgrade-insecure-requests");
+    });
+});
+
+describe('checkSecurityHeaders', () => {
+    it('has nothing to say about the profiles as shipped', () => {
+        assert.deepEqual(checkSecurityHeaders(configWith({})), []);
+        assert.deepEqual(checkSecurityHeaders(configWith({ profile: 'strict' })), []);
+    });
+
+    it('warns about settings that weaken the policy', () => {
+        assert.deepEqual(checkSecurityHeaders(configWith({ csp: false })), ['no Content-Security-Policy is sent']);
+        assert.deepEqual(checkSecurityHeaders(configWith({ csp: { 'script-src': ["'self'", "'unsafe-eval'", 'https:'] } })), [
+            "script-src allows 'unsafe-eval'",
+            'script-src allows scripts from https:, which defeats the policy'
+        ]);
+        assert.deepEqual(checkSecurityHeaders(configWith({ profile: 'strict', csp: { 'script-src': ["'self'", "'unsafe-inline'"] } })), [
+            "the strict profile's script-src was relaxed with 'unsafe-inline'"
+        ]);
+        assert.deepEqual(checkSecurityHeaders(configWith({ profile: 'legacy' })), [
+            "the legacy profile allows scripts from http: and 'unsafe-inline' everywhere"
+        ]);
+    });
+
+    it('warns about settings that do not do what they appear to', () => {
+        assert.deepEqual(checkSecurityHeaders(configWith({ cspReportOnly: true })), [
+            'the CSP is report-only but has no report-uri or report-to, so violations are neither blocked nor reported'
+        ]);
+        assert.deepEqual(checkSecurityHeaders(configWith({ hsts: true }, false)), [
+            'hsts is configured but ssl is off, so no Strict-Transport-Security header is sent'
+        ]);
+        assert.match(checkSecurityHeaders(configWith({ hsts: { preload: true } })).join('\n'), /HSTS preload needs includeSubDomains/);
+        assert.deepEqual(checkSecurityHeaders(configWith({ crossOriginEmbedderPolicy: 'require-corp' })), [
+            'Cross-Origin-Embedder-Policy only isolates the page together with Cross-Origin-Opener-Policy: same-origin'
+        ]);
+    });
+});
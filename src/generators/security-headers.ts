@@ -0,0 +1,227 @@
+// src/generators/security-headers.ts
+import { DeployConfig, HstsConfig, SecurityHeaderProfile, SecurityHeadersConfig } from '../types.js';
+
+// Directive name to sources; an empty list renders the bare directive, e.g. upgrade-insecure-requests
+export type CspDirectives = Record<string, string[]>;
+
+export interface SecurityHeader {
+    name: string;
+    value: string;
+}
+
+interface HeaderProfile {
+    frameOptions: string;
+    referrerPolicy: string;
+    // Deprecated and ignored by current browsers; only the legacy profile sends it
+    xssProtection?: string;
+    csp: CspDirectives;
+    hsts?: Required<HstsConfig>;
+    permissionsPolicy?: Record<string, string[]>;
+    crossOriginOpenerPolicy?: string;
+    crossOriginEmbedderPolicy?: string;
+}
+
+interface ResolvedHeaders extends Omit<HeaderProfile, 'csp'> {
+    csp: CspDirectives | null;
+    cspReportOnly: boolean;
+}
+
+// The minimum the HSTS preload list accepts
+const PRELOAD_MIN_AGE = 31536000;
+
+const PROFILES: Record<SecurityHeaderProfile, HeaderProfile> = {
+    strict: {
+        frameOptions: 'DENY',
+        referrerPolicy: 'no-referrer',
+        csp: {
+            'default-src': ["'self'"],
+            'script-src': ["'self'"],
+            'style-src': ["'self'"],
+            'img-src': ["'self'", 'data:'],
+            'font-src': ["'self'"],
+            'connect-src': ["'self'"],
+            'object-src': ["'none'"],
+            'base-uri': ["'none'"],
+            'form-action': ["'self'"],
+            'frame-ancestors': ["'none'"]
+        },
+        hsts: { maxAge: 63072000, includeSubDomains: true, preload: true },
+        permissionsPolicy: { camera: [], microphone: [], geolocation: [], payment: [], usb: [] },
+        crossOriginOpenerPolicy: 'same-origin',
+        crossOriginEmbedderPolicy: 'require-corp'
+    },
+    // Inline scripts and styles stay allowed: Next.js and Vite builds emit both
+    default: {
+        frameOptions: 'SAMEORIGIN',
+        referrerPolicy: 'strict-origin-when-cross-origin',
+        csp: {
+            'default-src': ["'self'"],
+            'script-src': ["'self'", "'unsafe-inline'"],
+            'style-src': ["'self'", "'unsafe-inline'"],
+            'img-src': ["'self'", 'data:', 'blob:', 'https:'],
+            'font-src': ["'self'", 'data:'],
+            'connect-src': ["'self'", 'https:', 'wss:'],
+            'object-src': ["'none'"],
+            'base-uri': ["'self'"],
+            'form-action': ["'self'"],
+            'frame-ancestors': ["'self'"]
+        },
+        hsts: { maxAge: 31536000, includeSubDomains: false, preload: false },
+        permissionsPolicy: { camera: [], microphone: [], geolocation: [] },
+        crossOriginOpenerPolicy: 'same-origin-allow-popups'
+    },
+    // The headers deploy-neex sent before profiles existed
+    legacy: {
+        frameOptions: 'SAMEORIGIN',
+        referrerPolicy: 'no-referrer-when-downgrade',
+        xssProtection: '1; mode=block',
+        csp: {
+            'default-src': ["'self'", 'http:', 'https:', 'data:', 'blob:', "'unsafe-inline'"]
+        }
+    }
+};
+
+export function buildCsp(directives: CspDirectives): string {
+    return Object.entries(directives).map(([name, sources]) => [name, ...sources].join(' ')).join('; ');
+}
+
+// Keywords are bare, origins are quoted: geolocation=(self "https://maps.example.com")
+function buildPermissionsPolicy(features: Record<string, string[]>): string {
+    return Object.entries(features)
+        .map(([feature, allowlist]) => `${feature}=(${allowlist.map(origin => origin === 'self' || origin === '*' ? origin : `"${origin}"`).join(' ')})`)
+        .join(', ');
+}
+
+function buildHsts(hsts: Required<HstsConfig>): string {
+    return [`max-age=${hsts.maxAge}`, hsts.includeSubDomains && 'includeSubDomains', hsts.preload && 'preload']
+        .filter(Boolean)
+        .join('; ');
+}
+
+function resolveHeaders(settings: SecurityHeadersConfig, withTls: boolean): ResolvedHeaders {
+    const profileName = settings.profile ?? 'default';
+    const profile = PROFILES[profileName];
+
+    let csp: CspDirectives | null = null;
+    if (settings.csp !== false) {
+        csp = { ...profile.csp };
+        for (const [name, sources] of Object.entries(typeof settings.csp === 'object' ? settings.csp : {})) {
+            if (sources === false) {
+                delete csp[name];
+            } else if (sources !== true) {
+                csp[name] = sources;
+            }
+        }
+        if (withTls && profileName !== 'legacy') {
+            csp['upgrade-insecure-requests'] = [];
+        }
+    }
+
+    // HSTS over plain HTTP is ignored by browsers and would only mislead
+    const hstsBase = profile.hsts ?? PROFILES.default.hsts!;
+    const hsts = !withTls || settings.hsts === false || (!profile.hsts && !settings.hsts)
+        ? undefined
+        : { ...hstsBase, ...(typeof settings.hsts === 'object' ? settings.hsts : {}) };
+
+    const permissionsPolicy = settings.permissionsPolicy === false
+        ? undefined
+        : { ...profile.permissionsPolicy, ...(typeof settings.permissionsPolicy === 'object' ? settings.permissionsPolicy : {}) };
+
+    const pick = (value: string | boolean | undefined, fallback: string | undefined) =>
+        value === false ? undefined : typeof value === 'string' ? value : fallback;
+
+    return {
+        frameOptions: profile.frameOptions,
+        referrerPolicy: profile.referrerPolicy,
+        xssProtection: profile.xssProtection,
+        csp,
+        cspReportOnly: settings.cspReportOnly ?? false,
+        hsts,
+        permissionsPolicy: permissionsPolicy && Object.keys(permissionsPolicy).length > 0 ? permissionsPolicy : undefined,
+        crossOriginOpenerPolicy: pick(settings.crossOriginOpenerPolicy, profile.crossOriginOpenerPolicy),
+        crossOriginEmbedderPolicy: pick(settings.crossOriginEmbedderPolicy, profile.crossOriginEmbedderPolicy)
+    };
+}
+
+/**
+ * The response headers for the site, from `nginx.headers.profile`
+ * ('default' unless set) with the config's overrides applied.
+ */
+export function getSecurityHeaders(config: DeployConfig, withTls: boolean): SecurityHeader[] {
+    const resolved = resolveHeaders(config.nginx?.headers ?? {}, withTls);
+    const headers: SecurityHeader[] = [
+        { name: 'X-Frame-Options', value: resolved.frameOptions },
+        { name: 'X-Content-Type-Options', value: 'nosniff' },
+        { name: 'Referrer-Policy', value: resolved.referrerPolicy }
+    ];
+
+    if (resolved.xssProtection) {
+        headers.push({ name: 'X-XSS-Protection', value: resolved.xssProtection });
+    }
+    if (resolved.csp) {
+        headers.push({
+            name: resolved.cspReportOnly ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy',
+            value: buildCsp(resolved.csp)
+        });
+    }
+    if (resolved.hsts) {
+        headers.push({ name: 'Strict-Transport-Security', value: buildHsts(resolved.hsts) });
+    }
+    if (resolved.permissionsPolicy) {
+        headers.push({ name: 'Permissions-Policy', value: buildPermissionsPolicy(resolved.permissionsPolicy) });
+    }
+    if (resolved.crossOriginOpenerPolicy) {
+        headers.push({ name: 'Cross-Origin-Opener-Policy', value: resolved.crossOriginOpenerPolicy });
+    }
+    if (resolved.crossOriginEmbedderPolicy) {
+        headers.push({ name: 'Cross-Origin-Embedder-Policy', value: resolved.crossOriginEmbedderPolicy });
+    }
+
+    return headers;
+}
+
+/**
+ * Header settings that weaken the site or do not do what they appear to.
+ */
+export function checkSecurityHeaders(config: DeployConfig): string[] {
+    const settings = config.nginx?.headers ?? {};
+    const resolved = resolveHeaders(settings, config.ssl);
+    const warnings: string[] = [];
+
+    if (!resolved.csp) {
+        warnings.push('no Content-Security-Policy is sent');
+    } else {
+        const scriptSources = resolved.csp['script-src'] ?? resolved.csp['default-src'] ?? [];
+        const scriptDirective = resolved.csp['script-src'] ? 'script-src' : 'default-src';
+
+        if (scriptSources.includes("'unsafe-eval'")) {
+            warnings.push(`${scriptDirective} allows 'unsafe-eval'`);
+        }
+        const anySource = scriptSources.filter(source => ['*', 'http:', 'https:', 'data:'].includes(source));
+        if (settings.profile === 'legacy' && !resolved.csp['script-src']) {
+            warnings.push("the legacy profile allows scripts from http: and 'unsafe-inline' everywhere");
+        } else if (anySource.length > 0) {
+            warnings.push(`${scriptDirective} allows scripts from ${anySource.join(' ')}, which defeats the policy`);
+        }
+        if (settings.profile === 'strict' && scriptSources.includes("'unsafe-inline'")) {
+            warnings.push(`the strict profile's ${scriptDirective} was relaxed with 'unsafe-inline'`);
+        }
+        if (resolved.cspReportOnly && !resolved.csp['report-uri'] && !resolved.csp['report-to']) {
+            warnings.push('the CSP is report-only but has no report-uri or report-to, so violations are neither blocked nor reported');
+        }
+    }
+
+    if (settings.hsts && !config.ssl) {
+        warnings.push('hsts is configured but ssl is off, so no Strict-Transport-Security header is sent');
+    }
+    if (resolved.hsts?.preload && (resolved.hsts.maxAge < PRELOAD_MIN_AGE || !resolved.hsts.includeSubDomains)) {
+        warnings.push(`HSTS preload needs includeSubDomains and a max-age of at least ${PRELOAD_MIN_AGE}; browsers' preload lists will reject it`);
+    }
+
+    if (resolved.crossOriginEmbedderPolicy && resolved.crossOriginEmbedderPolicy !== 'unsafe-none' &&
+        resolved.crossOriginOpenerPolicy !== 'same-origin') {
+        warnings.push('Cross-Origin-Embedder-Policy only isolates the page together with Cross-Origin-Opener-Policy: same-origin');
+    }
+
+    return warnings;
+}
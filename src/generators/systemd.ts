@@ -0,0 +1,200 @@
+// src/generators/systemd.ts
+import path from 'path';
+import { AppRole, DeployConfig, NeexProject } from '../types.js';
+import { Logger } from '../utils/logger.js';
+import { SystemUtils } from '../utils/system.js';
+import { resolveStartScript } from './entry.js';
+import { findRuntimeSecretsFile } from '../secrets.js';
+import { getRevisionEnv } from '../git.js';
+import { TemplateRenderer } from '../templates.js';
+import { LogOptions, ManagementCommands, ProcessManager, getAppNames, hasClientProcess } from './process-manager.js';
+
+const DEFAULT_UNIT_DIR = '/etc/systemd/system';
+
+interface SystemdUnit {
+    name: string;
+    description: string;
+    workingDirectory: string;
+    execStart: string;
+    environment: Record<string, string | number>;
+    memoryMax?: string;
+    timeoutStopSec?: number;
+}
+
+/**
+ * Runs each app as a systemd service, for servers where global npm
+ * installs (and therefore PM2) are not allowed. Units are written to
+ * /etc/systemd/system and managed with plain systemctl, so deploys and
+ * the management commands run as root.
+ */
+export class SystemdGenerator implements ProcessManager {
+    readonly name = 'systemd';
+    private logger: Logger;
+    private system: SystemUtils;
+    private templates: TemplateRenderer;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+        this.templates = new TemplateRenderer(logger, system);
+    }
+
+    async install(): Promise<void> {
+        if (!await this.system.checkCommand('systemctl')) {
+            throw new Error('systemctl not found. The systemd process manager needs a systemd-based Linux host');
+        }
+        this.logger.success('systemd available');
+    }
+
+    async generate(config: DeployConfig, project: NeexProject): Promise<void> {
+        const unitDir = config.systemd?.unitDir ?? DEFAULT_UNIT_DIR;
+        const secretsFile = await findRuntimeSecretsFile(config, project, this.system);
+
+        for (const unit of await this.getUnits(config, project)) {
+            await this.system.writeFile(`${unitDir}/${unit.name}.service`, await this.generateUnitFile(config, project, unit, secretsFile));
+        }
+
+        await this.system.executeCommand('systemctl', ['daemon-reload']);
+        this.logger.success(`systemd units generated in ${unitDir}`);
+    }
+
+    private async generateUnitFile(config: DeployConfig, project: NeexProject, unit: SystemdUnit, secretsFile: string | null): Promise<string> {
+        return this.templates.render('systemd.service', {
+            config,
+            project,
+            unit: {
+                ...unit,
+                memoryMax: unit.memoryMax ?? config.systemd?.memoryMax ?? '1G',
+                timeoutStopSec: unit.timeoutStopSec ?? 30
+            },
+            secretsFile
+        });
+    }
+
+    async start(config: DeployConfig, project: NeexProject): Promise<void> {
+        this.logger.step('Starting systemd services...');
+        const units = getAppNames(config, project);
+
+        try {
+            if (config.autoStart) {
+                await this.system.executeCommand('systemctl', ['enable', ...units]);
+                this.logger.success('Services enabled at boot');
+            }
+            await this.system.executeCommand('systemctl', ['restart', ...units]);
+            this.logger.success('systemd services started');
+        } catch (error: any) {
+            this.logger.error(`Failed to start systemd services: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async reload(config: DeployConfig, project: NeexProject): Promise<void> {
+        // Plain services have no graceful reload; a restart picks up the new code
+        await this.restart(config, project);
+    }
+
+    async stop(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void> {
+        await this.run('Stopping', 'stopped', ['stop', ...getAppNames(config, project, app)]);
+    }
+
+    async restart(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void> {
+        await this.run('Restarting', 'restarted', ['restart', ...getAppNames(config, project, app)]);
+    }
+
+    async delete(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void> {
+        const units = getAppNames(config, project, app);
+        const unitDir = config.systemd?.unitDir ?? DEFAULT_UNIT_DIR;
+
+        await this.run('Removing', 'removed', ['disable', '--now', ...units]);
+        for (const unit of units) {
+            await this.system.removePath(`${unitDir}/${unit}.service`);
+        }
+        await this.system.executeCommand('systemctl', ['daemon-reload']);
+    }
+
+    async status(config: DeployConfig, project: NeexProject, app?: AppRole): Promise<void> {
+        // systemctl status exits non-zero when a unit is inactive; that is still a valid report
+        await this.system.executeCommand('systemctl', ['status', '--no-pager', ...getAppNames(config, project, app)])
+            .catch(() => undefined);
+    }
+
+    async logs(config: DeployConfig, project: NeexProject, options: LogOptions, app?: AppRole): Promise<void> {
+        const args = ['--no-pager', '-n', String(options.lines ?? 50)];
+        for (const unit of getAppNames(config, project, app)) {
+            args.push('-u', unit);
+        }
+        if (options.follow) args.push('-f');
+
+        await this.system.executeCommand('journalctl', args);
+    }
+
+    async getPids(config: DeployConfig, project: NeexProject, app: AppRole): Promise<number[]> {
+        const [unit] = getAppNames(config, project, app);
+        const result = await this.system.probeCommand('systemctl', ['show', '--property', 'MainPID', '--value', unit]);
+        const pid = parseInt(result.stdout.trim());
+
+        return result.exitCode === 0 && pid > 0 ? [pid] : [];
+    }
+
+    getManagementCommands(config: DeployConfig, project: NeexProject): ManagementCommands {
+        const units = getAppNames(config, project).join(' ');
+        const journalUnits = getAppNames(config, project).map(unit => `-u ${unit}`).join(' ');
+
+        return {
+            status: `systemctl status --no-pager ${units}`,
+            logs: `journalctl --no-pager -n 20 ${journalUnits}`,
+            restart: `systemctl restart ${units}`,
+            stop: `systemctl stop ${units}`
+        };
+    }
+
+    private async run(verb: string, done: string, args: string[]): Promise<void> {
+        this.logger.step(`${verb} systemd services...`);
+        try {
+            await this.system.executeCommand('systemctl', args);
+            this.logger.success(`systemd services ${done}`);
+        } catch (error: any) {
+            this.logger.error(`Failed to run systemctl ${args[0]}: ${error.message}`);
+            throw error;
+        }
+    }
+
+    private async getUnits(config: DeployConfig, project: NeexProject): Promise<SystemdUnit[]> {
+        // systemd does not search PATH, so ExecStart needs an absolute binary
+        const packageManagerPath = await this.system.resolveCommand(config.packageManager);
+        const packageManager = packageManagerPath ?? `/usr/bin/env ${config.packageManager}`;
+        // Nor does it inherit the shell's PATH; keep the target's node reachable, e.g. one installed with nvm
+        const binDirs = [await this.system.resolveCommand('node'), packageManagerPath]
+            .filter((bin): bin is string => Boolean(bin))
+            .map(bin => path.dirname(bin));
+        const PATH = [...new Set([...binDirs, '/usr/local/bin', '/usr/bin', '/bin'])].join(':');
+        const units: SystemdUnit[] = [];
+
+        const addUnit = async (role: AppRole, port: number) => {
+            const runtime = config.apps?.[role] ?? {};
+            const appPath = role === 'client' ? project.clientPath : project.serverPath;
+            const start = await resolveStartScript(this.system, project.rootPath, appPath, role);
+            units.push({
+                name: getAppNames(config, project, role)[0],
+                description: `${config.projectName} ${role}${config.colour ? ` ${config.colour}` : ''} (deploy-neex)`,
+                workingDirectory: start.cwd,
+                execStart: `${packageManager} ${start.args.join(' ')}`,
+                environment: {
+                    ...runtime.env,
+                    ...getRevisionEnv(config),
+                    ...(runtime.nodeArgs?.length ? { NODE_OPTIONS: runtime.nodeArgs.join(' ') } : {}),
+                    NODE_ENV: config.environment,
+                    PORT: port,
+                    PATH
+                },
+                memoryMax: runtime.maxMemory,
+                timeoutStopSec: runtime.killTimeout !== undefined ? Math.ceil(runtime.killTimeout / 1000) : undefined
+            });
+        };
+
+        if (hasClientProcess(config, project)) await addUnit('client', config.clientPort);
+        if (project.hasServer) await addUnit('server', config.serverPort);
+
+        return units;
+    }
+}
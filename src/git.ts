@@ -0,0 +1,225 @@
+// src/git.ts
+import { execa } from 'execa';
+import { DeployConfig, GitRevision, NeexProject } from './types.js';
+import { Logger } from './utils/logger.js';
+import { SystemUtils } from './utils/system.js';
+
+// Changed files listed when a dirty tree is refused
+const MAX_LISTED_CHANGES = 10;
+// An in-place install may rewrite these, so changes to them are the deploy's own
+const LOCKFILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'bun.lock'];
+
+export class GitError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GitError';
+    }
+}
+
+/**
+ * APP_VERSION and GIT_SHA for the apps' environment, when the deployed
+ * code came from a git repository.
+ */
+export function getRevisionEnv(config: DeployConfig): Record<string, string> {
+    return config.revision ? { APP_VERSION: config.revision.version, GIT_SHA: config.revision.sha } : {};
+}
+
+/**
+ * A file as committed at `sha`, or null when that commit does not have
+ * it. `filePath` is relative to `cwd`, which may be below the repository
+ * root.
+ */
+export async function readCommittedFile(cwd: string, sha: string, filePath: string): Promise<string | null> {
+    const result = await execa('git', ['show', `${sha}:./${filePath}`], { cwd, reject: false, stripFinalNewline: false });
+    return result.exitCode === 0 ? result.stdout : null;
+}
+
+/**
+ * Works out which commit a deploy ships, in the local checkout deploy-neex
+ * was started in. Git always runs on this machine, also when deploying
+ * over SSH, where the code is uploaded without its repository.
+ */
+export class GitSource {
+    private logger: Logger;
+    private system: SystemUtils;
+    // What checkout() switched away from, for restore(); lockfile changes are the install's when they were clean before
+    private checkedOutFrom: { cwd: string; ref: string; ownsLockfiles: boolean } | null = null;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+    }
+
+    /**
+     * Resolves the revision to deploy and returns the config with it set.
+     * `exported` says whether the deploy copies `git.ref` out of the
+     * repository (into a release or an upload); otherwise the ref is
+     * checked out in place. Whenever the working tree itself is deployed
+     * it has to be clean, unless git.allowDirty is set. Outside a git
+     * repository the working tree is deployed without a revision. A ref
+     * checked out in place stays checked out until restore().
+     */
+    async prepare(config: DeployConfig, project: NeexProject, exported: boolean): Promise<DeployConfig> {
+        const ref = config.git?.ref;
+        const cwd = project.rootPath;
+
+        if (!await this.isRepository(cwd)) {
+            if (ref) {
+                throw new GitError(`--ref needs a git repository, and ${cwd} is not one`);
+            }
+            return config;
+        }
+
+        const sha = await this.resolveCommit(cwd, ref ?? 'HEAD');
+        if (!sha) {
+            if (ref) {
+                throw new GitError(`${ref} is not a branch, tag or commit in this repository`);
+            }
+            // A repository without commits yet
+            return config;
+        }
+
+        const fromWorkingTree = !ref || !exported;
+        const changes = fromWorkingTree ? await this.getChanges(cwd) : [];
+
+        if (changes.length > 0 && !config.git?.allowDirty) {
+            const listed = changes.slice(0, MAX_LISTED_CHANGES).map(line => `  ${line}`);
+            if (changes.length > MAX_LISTED_CHANGES) {
+                listed.push(`  ... and ${changes.length - MAX_LISTED_CHANGES} more`);
+            }
+            const error = new GitError(`The working tree has uncommitted changes:\n${listed.join('\n')}\n` +
+                'Commit or stash them, or deploy with --force');
+
+            // A plan only reports it
+            if (!this.system.isDryRun()) {
+                throw error;
+            }
+            this.logger.warning(error.message);
+            this.system.addPlanNote(`Refused without --force: ${changes.length} uncommitted change(s) in the working tree`);
+        }
+
+        if (ref && !exported) {
+            await this.checkout(cwd, ref, sha);
+        }
+
+        const revision = await this.describe(cwd, sha, ref, changes.length > 0);
+        this.logger.info(`Deploying ${revision.version} (${revision.sha.slice(0, 7)}) by ${revision.author}: ${revision.message}`);
+        this.system.addPlanNote(`Revision ${revision.version} (${revision.sha.slice(0, 7)})${revision.dirty ? ' with uncommitted changes' : ''}: ${revision.message}`);
+
+        return { ...config, revision };
+    }
+
+    /**
+     * Checks out the branch or commit the working tree was on before
+     * prepare() switched it to `git.ref`. Call it once the deploy is over,
+     * failed or not; the apps keep running what was built from the ref.
+     */
+    async restore(): Promise<void> {
+        if (!this.checkedOutFrom) return;
+
+        const { cwd, ref, ownsLockfiles } = this.checkedOutFrom;
+        this.checkedOutFrom = null;
+
+        try {
+            await this.system.runTask(`git checkout --quiet ${ref} (locally, in ${cwd})`, async () => {
+                if (ownsLockfiles) {
+                    await this.discardLockfileChanges(cwd, ref);
+                }
+                await execa('git', ['checkout', '--quiet', ref], { cwd });
+            });
+            this.logger.info(`Checked out ${ref} again`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.logger.warning(`Could not check out ${ref} again: ${errorMessage}`);
+        }
+    }
+
+    private async checkout(cwd: string, ref: string, sha: string): Promise<void> {
+        const head = await this.resolveCommit(cwd, 'HEAD');
+        if (head === sha) {
+            return;
+        }
+
+        // The branch name where there is one, so restore() does not leave a detached HEAD
+        const branch = await execa('git', ['symbolic-ref', '--quiet', '--short', 'HEAD'], { cwd, reject: false });
+        const original = branch.exitCode === 0 ? branch.stdout.trim() : head!;
+        const ownsLockfiles = (await this.listLockfiles(cwd, '--modified')).length === 0;
+
+        this.logger.step(`Checking out ${ref}...`);
+        this.system.addPlanNote(`Probes look at the working tree as it is now, before ${ref} is checked out`);
+        await this.system.runTask(`git checkout --quiet ${ref} (locally, in ${cwd})`, async () => {
+            await execa('git', ['checkout', '--quiet', ref], { cwd });
+        });
+        this.checkedOutFrom = { cwd, ref: original, ownsLockfiles };
+        this.logger.success(`Checked out ${ref}`);
+    }
+
+    private async describe(cwd: string, sha: string, ref: string | undefined, dirty: boolean): Promise<GitRevision> {
+        const log = await this.git(cwd, ['log', '-1', '--format=%an <%ae>%n%cI%n%s', sha]);
+        const [author = '', committedAt = '', message = ''] = log.split('\n');
+        const version = await this.git(cwd, ['describe', '--tags', '--always', sha]);
+
+        return {
+            sha,
+            version: dirty ? `${version}-dirty` : version,
+            ref,
+            author,
+            message,
+            committedAt,
+            dirty
+        };
+    }
+
+    /**
+     * Undoes what an install did to the lockfiles, which would otherwise
+     * stop the checkout: rewritten tracked ones, and new ones that `ref`
+     * has a version of.
+     */
+    private async discardLockfileChanges(cwd: string, ref: string): Promise<void> {
+        const modified = await this.listLockfiles(cwd, '--modified');
+        if (modified.length > 0) {
+            await this.git(cwd, ['checkout', '--', ...modified]);
+        }
+
+        for (const file of await this.listLockfiles(cwd, '--others')) {
+            const tracked = await execa('git', ['cat-file', '-e', `${ref}:./${file}`], { cwd, reject: false });
+            if (tracked.exitCode === 0) {
+                await this.git(cwd, ['clean', '--quiet', '--force', '--', file]);
+            }
+        }
+    }
+
+    private async listLockfiles(cwd: string, which: '--modified' | '--others'): Promise<string[]> {
+        const files = await this.git(cwd, ['ls-files', which, '--', ...LOCKFILES.map(name => `:(glob)**/${name}`)]);
+        return files.split('\n').filter(Boolean);
+    }
+
+    private async isRepository(cwd: string): Promise<boolean> {
+        const result = await execa('git', ['rev-parse', '--is-inside-work-tree'], { cwd, reject: false }).catch(() => null);
+        return result?.exitCode === 0 && result.stdout.trim() === 'true';
+    }
+
+    private async resolveCommit(cwd: string, ref: string): Promise<string | null> {
+        const result = await execa('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], { cwd, reject: false });
+        return result.exitCode === 0 ? result.stdout.trim() : null;
+    }
+
+    /**
+     * Uncommitted changes to tracked files. Untracked files are left out:
+     * an in-place deploy writes its own (ecosystem.config.js, status.sh and
+     * the like) into the project root.
+     */
+    private async getChanges(cwd: string): Promise<string[]> {
+        const lockfiles = LOCKFILES.map(name => `:(exclude,glob)**/${name}`);
+        const status = await this.git(cwd, ['status', '--porcelain', '--untracked-files=no', '--', '.', ...lockfiles]);
+        return status.split('\n').filter(Boolean);
+    }
+
+    private async git(cwd: string, args: string[]): Promise<string> {
+        const result = await execa('git', args, { cwd, reject: false });
+        if (result.exitCode !== 0) {
+            throw new GitError(`git ${args[0]} failed: ${result.stderr.trim() || `exit code ${result.exitCode}`}`);
+        }
+        return result.stdout.trimEnd();
+    }
+}
@@ -0,0 +1,153 @@
+// src/health.ts
+import http from 'http';
+import https from 'https';
+import { HealthCheckConfig } from './types.js';
+import { Logger } from './utils/logger.js';
+import { SystemUtils } from './utils/system.js';
+
+export const DEFAULT_HEALTH_CHECK: Required<Omit<HealthCheckConfig, 'expectedStatus' | 'bodyMatch'>> = {
+    enabled: true,
+    path: '/',
+    timeout: 5000,
+    retries: 5,
+    backoff: 1000
+};
+
+export interface HealthTarget {
+    name: string;
+    url: string;
+    // Host header to send, used when probing a virtual host through Nginx
+    host?: string;
+    check: HealthCheckConfig;
+}
+
+export interface HealthResult {
+    ok: boolean;
+    attempts: number;
+    status?: number;
+    error?: string;
+}
+
+interface ProbeResponse {
+    status: number;
+    body: string;
+}
+
+export class HealthChecker {
+    private logger: Logger;
+    private system: SystemUtils;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+    }
+
+    /**
+     * Probes the target until it passes or retries run out. The delay
+     * between attempts starts at `backoff` and doubles each time.
+     */
+    async check(target: HealthTarget): Promise<HealthResult> {
+        const check = { ...DEFAULT_HEALTH_CHECK, ...target.check };
+        const attempts = check.retries + 1;
+        let lastError = '';
+        let lastStatus: number | undefined;
+
+        for (let attempt = 1; attempt <= attempts; attempt++) {
+            try {
+                const response = await this.probe(target.url, check.timeout, target.host);
+                lastStatus = response.status;
+                lastError = this.verify(response, check) ?? '';
+
+                if (!lastError) {
+                    return { ok: true, attempts: attempt, status: response.status };
+                }
+            } catch (error) {
+                lastError = error instanceof Error ? error.message : String(error);
+            }
+
+            if (attempt < attempts) {
+                const delay = check.backoff * 2 ** (attempt - 1);
+                this.logger.info(`${target.name} not healthy yet (${lastError}), retrying in ${delay}ms`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+
+        return { ok: false, attempts, status: lastStatus, error: lastError };
+    }
+
+    private verify(response: ProbeResponse, check: HealthCheckConfig): string | null {
+        if (check.expectedStatus !== undefined) {
+            if (response.status !== check.expectedStatus) {
+                return `expected status ${check.expectedStatus}, got ${response.status}`;
+            }
+        } else if (response.status >= 500) {
+            // Without an explicit expectation any non-5xx answer counts as serving
+            return `got status ${response.status}`;
+        }
+
+        if (check.bodyMatch && !this.matchesBody(response.body, check.bodyMatch)) {
+            return `response body does not match ${check.bodyMatch}`;
+        }
+
+        return null;
+    }
+
+    private matchesBody(body: string, pattern: string): boolean {
+        // "/.../" is treated as a regular expression, anything else as a substring
+        const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+        return regex ? new RegExp(regex[1], regex[2]).test(body) : body.includes(pattern);
+    }
+
+    private probe(url: string, timeout: number, host?: string): Promise<ProbeResponse> {
+        if (this.system.isRemote()) {
+            return this.probeWithCurl(url, timeout, host);
+        }
+
+        const target = new URL(url);
+        const client = target.protocol === 'https:' ? https : http;
+
+        return new Promise((resolve, reject) => {
+            const request = client.request(target, {
+                method: 'GET',
+                headers: host ? { Host: host } : undefined,
+                servername: host,
+                // Probes hit 127.0.0.1 directly, so the certificate name never matches
+                rejectUnauthorized: false,
+                timeout
+            }, (response) => {
+                const chunks: Buffer[] = [];
+                response.on('data', (chunk: Buffer) => chunks.push(chunk));
+                response.on('end', () => resolve({
+                    status: response.statusCode ?? 0,
+                    body: Buffer.concat(chunks).toString('utf-8')
+                }));
+                response.on('error', reject);
+            });
+
+            request.on('timeout', () => request.destroy(new Error(`timed out after ${timeout}ms`)));
+            request.on('error', reject);
+            request.end();
+        });
+    }
+
+    // Over SSH the apps' 127.0.0.1 is the server's, so the request has to be made there
+    private async probeWithCurl(url: string, timeout: number, host?: string): Promise<ProbeResponse> {
+        const target = new URL(url);
+        const args = ['--silent', '--show-error', '--insecure', '--max-time', String(Math.ceil(timeout / 1000)), '--write-out', '\n%{http_code}'];
+
+        if (host) {
+            // Sends the domain as Host and SNI while still connecting to 127.0.0.1
+            const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+            args.push('--resolve', `${host}:${port}:${target.hostname}`);
+            target.hostname = host;
+        }
+
+        const result = await this.system.probeCommand('curl', [...args, target.toString()]);
+        if (result.exitCode !== 0) {
+            throw new Error(result.stderr.trim() || `curl exited with code ${result.exitCode}`);
+        }
+
+        const split = result.stdout.lastIndexOf('\n');
+        return { status: parseInt(result.stdout.slice(split + 1)), body: result.stdout.slice(0, split) };
+    }
+}
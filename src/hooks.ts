@@ -0,0 +1,162 @@
+// src/hooks.ts
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import { createRequire } from 'module';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { DeployConfig, HookConfig, HookName, NeexProject } from './types.js';
+import { Logger } from './utils/logger.js';
+import { SystemUtils } from './utils/system.js';
+
+export const DEFAULT_HOOK_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * What a hook module's default export is called with.
+ */
+export interface HookContext {
+    hook: HookName;
+    config: DeployConfig;
+    project: NeexProject;
+    // Set for onFailure hooks
+    error?: Error;
+}
+
+export class HookError extends Error {
+    readonly hook: HookName;
+
+    constructor(hook: HookName, message: string) {
+        super(`${hook} hook failed: ${message}`);
+        this.name = 'HookError';
+        this.hook = hook;
+    }
+}
+
+/**
+ * Runs the commands and modules declared under `hooks` in the deploy
+ * config. Entries of a hook run in order and the first failure stops the
+ * deploy, except for onFailure hooks, which all run and only log errors.
+ * Commands run where the deploy goes; modules are loaded into deploy-neex
+ * itself, so they only work when deploying to this machine.
+ */
+export class HookRunner {
+    private logger: Logger;
+    private system: SystemUtils;
+    private tsxRegistered = false;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+    }
+
+    async run(hook: HookName, config: DeployConfig, project: NeexProject, error?: Error): Promise<void> {
+        const entries = config.hooks?.[hook] ?? [];
+        if (entries.length === 0) return;
+
+        this.logger.step(`Running ${hook} hooks...`);
+        let failed = false;
+
+        for (const entry of entries) {
+            const hookConfig: HookConfig = typeof entry === 'string' ? { run: entry } : entry;
+
+            try {
+                await this.runEntry(hook, hookConfig, { hook, config, project, error });
+            } catch (cause: any) {
+                const failure = new HookError(hook, cause.timedOut
+                    ? `${hookConfig.run} timed out after ${hookConfig.timeout ?? DEFAULT_HOOK_TIMEOUT}ms`
+                    : cause.shortMessage ?? cause.message);
+
+                if (hook === 'onFailure') {
+                    this.logger.error(failure.message);
+                    failed = true;
+                    continue;
+                }
+                throw failure;
+            }
+        }
+
+        if (!failed) {
+            this.logger.success(`${hook} hooks completed`);
+        }
+    }
+
+    private async runEntry(hook: HookName, entry: HookConfig, context: HookContext): Promise<void> {
+        const cwd = path.resolve(context.project.rootPath, entry.cwd ?? '.');
+        const timeout = entry.timeout ?? DEFAULT_HOOK_TIMEOUT;
+
+        if (entry.run) {
+            this.logger.info(`${hook}: ${entry.run}`);
+            await this.system.executeShell(entry.run, {
+                cwd,
+                timeout,
+                env: {
+                    DEPLOY_NEEX_HOOK: hook,
+                    DEPLOY_NEEX_PROJECT: context.config.projectName,
+                    DEPLOY_NEEX_ENVIRONMENT: context.config.environment,
+                    DEPLOY_NEEX_ROOT: context.project.rootPath,
+                    ...(context.error ? { DEPLOY_NEEX_ERROR: context.error.message } : {})
+                },
+                onLine: line => console.log(chalk.gray(`  [${hook}] ${line}`))
+            });
+            return;
+        }
+
+        // The config loader already refuses them for remote deploys
+        if (this.system.isRemote()) {
+            throw new Error(`${entry.module} is a module hook, which runs inside deploy-neex on this machine ` +
+                `and cannot run on ${this.system.getTransport().label}; use run instead`);
+        }
+
+        const modulePath = path.resolve(cwd, entry.module!);
+        this.logger.info(`${hook}: ${path.relative(context.project.rootPath, modulePath)}`);
+
+        await this.system.runTask(`${hook} module ${modulePath}`, async () => {
+            if (!await fs.pathExists(modulePath)) {
+                throw new Error(`${modulePath} not found`);
+            }
+
+            const handler = await this.loadModule(modulePath, context.project.rootPath);
+            let timer: NodeJS.Timeout | undefined;
+
+            try {
+                await Promise.race([
+                    handler(context),
+                    new Promise((_, reject) => {
+                        timer = setTimeout(() => reject(new Error(`timed out after ${timeout}ms`)), timeout);
+                    })
+                ]);
+            } finally {
+                clearTimeout(timer);
+            }
+        });
+    }
+
+    private async loadModule(modulePath: string, rootPath: string): Promise<(context: HookContext) => unknown> {
+        if (/\.[cm]?ts$/.test(modulePath)) {
+            await this.registerTypeScript(rootPath);
+        }
+
+        const loaded = await import(pathToFileURL(modulePath).href);
+        const handler = typeof loaded.default === 'function' ? loaded.default : loaded.default?.default;
+
+        if (typeof handler !== 'function') {
+            throw new Error(`${path.basename(modulePath)} must export a function as its default export`);
+        }
+        return handler;
+    }
+
+    // TypeScript hooks are loaded through the project's own tsx
+    private async registerTypeScript(rootPath: string): Promise<void> {
+        if (this.tsxRegistered) return;
+
+        let apiPath: string;
+        try {
+            apiPath = createRequire(path.join(rootPath, 'package.json')).resolve('tsx/esm/api');
+        } catch {
+            throw new Error('TypeScript hook modules need tsx installed in the project (npm install -D tsx)');
+        }
+
+        const { register } = await import(pathToFileURL(apiPath).href);
+        register();
+        this.tsxRegistered = true;
+    }
+}
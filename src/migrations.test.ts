@@ -0,0 +1,54 @@
+// src/migrations.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseKnexStatus, parsePrismaStatus } from './migrations.js';
+
+describe('parsePrismaStatus', () => {
+    it('reads an up-to-date schema', () => {
+        const output = 'Datasource "db": PostgreSQL database "app"\n\n2 migrations found in prisma/migrations\n\nDatabase schema is up to date!\n';
+        assert.deepEqual(parsePrismaStatus(output), []);
+    });
+
+    it('lists the migrations not yet applied', () => {
+        const output = [
+            '3 migrations found in prisma/migrations',
+            'Following migrations have not yet been applied:',
+            '20240101000000_init',
+            '20240202000000_add_users',
+            '',
+            'To apply migrations in development run prisma migrate dev.',
+            ''
+        ].join('\n');
+
+        assert.deepEqual(parsePrismaStatus(output), ['20240101000000_init', '20240202000000_add_users']);
+        assert.deepEqual(parsePrismaStatus('Following migration have not yet been applied:\n20240101000000_init\n'), ['20240101000000_init']);
+    });
+
+    it('cannot tell from an error', () => {
+        assert.equal(parsePrismaStatus('Error: P1001: Can\'t reach database server at `db:5432`\n'), null);
+    });
+});
+
+describe('parseKnexStatus', () => {
+    it('reads an up-to-date database', () => {
+        assert.deepEqual(parseKnexStatus('Using environment: production\nFound 2 Completed Migration file/files.\n20240101_init.js\nNo Pending Migration files Found.\n'), []);
+    });
+
+    it('lists the pending migrations', () => {
+        const output = [
+            'Using environment: production',
+            'Found 1 Completed Migration file/files.',
+            '20240101_init.js',
+            'Found 2 Pending Migration file/files.',
+            '20240202_users.js',
+            '20240303_posts.js',
+            ''
+        ].join('\n');
+
+        assert.deepEqual(parseKnexStatus(output), ['20240202_users.js', '20240303_posts.js']);
+    });
+
+    it('cannot tell from an error', () => {
+        assert.equal(parseKnexStatus('Error: connect ECONNREFUSED 127.0.0.1:5432\n'), null);
+    });
+});
@@ -0,0 +1,186 @@
+// src/migrations.ts
+import chalk from 'chalk';
+import path from 'path';
+import { DeployConfig, MigrationTool, NeexProject } from './types.js';
+import { getComposeCommand, getContainerPath } from './generators/docker.js';
+import { Logger } from './utils/logger.js';
+import { SystemUtils } from './utils/system.js';
+
+export const DEFAULT_MIGRATION_TIMEOUT = 10 * 60 * 1000;
+
+interface MigrationCommands {
+    // Files that mark the directory the tool has to run from
+    markers: string[];
+    status?: string[];
+    deploy: string[];
+}
+
+const TOOLS: Record<MigrationTool, MigrationCommands> = {
+    prisma: {
+        markers: ['prisma/schema.prisma', 'schema.prisma', 'prisma/schema'],
+        status: ['prisma', 'migrate', 'status'],
+        deploy: ['prisma', 'migrate', 'deploy']
+    },
+    drizzle: {
+        markers: ['drizzle.config.ts', 'drizzle.config.mts', 'drizzle.config.js', 'drizzle.config.mjs', 'drizzle.config.cjs', 'drizzle.config.json'],
+        // drizzle-kit has no read-only status command
+        deploy: ['drizzle-kit', 'migrate']
+    },
+    knex: {
+        markers: ['knexfile.ts', 'knexfile.mts', 'knexfile.js', 'knexfile.mjs', 'knexfile.cjs'],
+        status: ['knex', 'migrate:list'],
+        deploy: ['knex', 'migrate:latest']
+    }
+};
+
+export interface MigrationStatus {
+    // Null when the tool cannot tell which migrations are pending
+    pending: string[] | null;
+    error?: string;
+}
+
+export class MigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MigrationError';
+    }
+}
+
+// Runs a locally installed binary through the project's package manager
+function packageExec(packageManager: string): string[] {
+    switch (packageManager) {
+        case 'pnpm': return ['pnpm', 'exec'];
+        case 'yarn': return ['yarn'];
+        case 'bun': return ['bunx'];
+        default: return ['npx', '--no-install'];
+    }
+}
+
+// The pending migrations `prisma migrate status` lists, or null when it did not say
+export function parsePrismaStatus(output: string): string[] | null {
+    if (/Database schema is up to date/.test(output)) {
+        return [];
+    }
+
+    const list = output.match(/migrations? (?:has|have) not yet been applied:\n([\s\S]*?)(?:\n\s*\n|$)/);
+    return list ? list[1].split('\n').map(line => line.trim()).filter(Boolean) : null;
+}
+
+// The same for `knex migrate:list`
+export function parseKnexStatus(output: string): string[] | null {
+    if (/No Pending Migration files Found/i.test(output)) {
+        return [];
+    }
+
+    const list = output.match(/Found \d+ Pending Migration file\/files\.\n([\s\S]*)$/);
+    return list ? list[1].split('\n').map(line => line.trim()).filter(Boolean) : null;
+}
+
+/**
+ * Applies the server's pending database migrations after the build and
+ * before anything is started, so a failed migration leaves the running
+ * release untouched.
+ */
+export class MigrationRunner {
+    private logger: Logger;
+    private system: SystemUtils;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+    }
+
+    getTool(config: DeployConfig, project: NeexProject): MigrationTool | undefined {
+        return project.hasServer ? config.migrations?.tool ?? project.migrationTool : undefined;
+    }
+
+    async run(config: DeployConfig, project: NeexProject, env: Record<string, string> = {}): Promise<void> {
+        const tool = this.getTool(config, project);
+        if (!tool) return;
+
+        if (config.migrations?.enabled === false) {
+            this.logger.info(`Skipping ${tool} migrations`);
+            this.system.addPlanNote(`${tool} migrations skipped`);
+            return;
+        }
+
+        this.logger.step(`Checking ${tool} migrations...`);
+        const cwd = await this.getWorkingDirectory(tool, project);
+        const inContainer = config.target === 'docker';
+        // The tool is only installed inside the server image
+        const status = inContainer
+            ? { pending: null, error: 'migrations run in a one-off server container' }
+            : await this.status(tool, project, cwd, env);
+
+        if (status.pending?.length === 0) {
+            this.logger.success('Database schema is up to date');
+            this.system.addPlanNote(`${tool}: no pending migrations`);
+            return;
+        }
+
+        if (status.pending) {
+            this.logger.info(`${status.pending.length} pending migration(s): ${status.pending.join(', ')}`);
+            this.system.addPlanNote(`${tool}: ${status.pending.length} pending migration(s)\n${status.pending.map(name => `  - ${name}`).join('\n')}`);
+        } else {
+            const reason = status.error ?? `${tool} cannot list pending migrations`;
+            this.logger.info(`Migration status unknown (${reason})`);
+            this.system.addPlanNote(`${tool}: migration status unknown (${reason})`);
+        }
+
+        const timeout = config.migrations?.timeout ?? DEFAULT_MIGRATION_TIMEOUT;
+        const migrate = [...packageExec(project.packageManager), ...TOOLS[tool].deploy];
+        // The container gets the secrets from the compose env files
+        const commandLine = inContainer
+            ? ['docker', ...getComposeCommand(config, project), 'run', '--rm', '--no-deps', '-T',
+                '-w', getContainerPath(project, cwd), 'server', ...migrate].join(' ')
+            : migrate.join(' ');
+
+        try {
+            await this.system.executeShell(commandLine, {
+                cwd: inContainer ? project.rootPath : cwd,
+                secretEnv: inContainer ? {} : env,
+                timeout,
+                onLine: line => console.log(chalk.gray(`  [migrate] ${line}`))
+            });
+        } catch (error: any) {
+            const reason = error.timedOut ? `timed out after ${timeout}ms` : error.shortMessage ?? error.message;
+            throw new MigrationError(`${tool} migrations failed, the new release was not started: ${reason}`);
+        }
+
+        this.logger.success('Database migrations applied');
+    }
+
+    async status(tool: MigrationTool, project: NeexProject, cwd: string, env: Record<string, string> = {}): Promise<MigrationStatus> {
+        const statusArgs = TOOLS[tool].status;
+        if (!statusArgs) {
+            return { pending: null };
+        }
+
+        const [command, ...prefix] = packageExec(project.packageManager);
+        const result = await this.system.probeCommand(command, [...prefix, ...statusArgs], cwd, env);
+        const output = `${result.stdout}\n${result.stderr}`;
+
+        const pending = tool === 'prisma' ? parsePrismaStatus(output) : parseKnexStatus(output);
+        if (pending) {
+            return { pending };
+        }
+
+        const lastLine = output.split('\n').map(line => line.trim()).filter(Boolean).pop();
+        return { pending: null, error: lastLine ?? `exit code ${result.exitCode}` };
+    }
+
+    // The server app, unless the tool's config only exists at the repo root
+    private async getWorkingDirectory(tool: MigrationTool, project: NeexProject): Promise<string> {
+        for (const marker of TOOLS[tool].markers) {
+            if (await this.system.pathExists(path.join(project.serverPath, marker))) {
+                return project.serverPath;
+            }
+        }
+        for (const marker of TOOLS[tool].markers) {
+            if (await this.system.pathExists(path.join(project.rootPath, marker))) {
+                return project.rootPath;
+            }
+        }
+        return project.serverPath;
+    }
+}
@@ -0,0 +1,132 @@
+// src/ports.ts
+import { ProcessManager, hasClientProcess } from './generators/process-manager.js';
+import { AppRole, Colour, DeployConfig, NeexProject } from './types.js';
+import { COLOURS, getColourConfig } from './blue-green.js';
+import { Logger } from './utils/logger.js';
+import { SystemUtils } from './utils/system.js';
+
+// How far up the process tree a listener may sit below one of our app processes
+const MAX_PROCESS_DEPTH = 10;
+
+export interface PortConflict {
+    role: AppRole;
+    port: number;
+    // Processes listening on the port, when they can be identified
+    pids: number[];
+    // The blue/green colour the port belongs to
+    colour?: Colour;
+}
+
+/**
+ * Checks that the configured ports can be bound before anything starts.
+ * A port held by this project's own running apps is not a conflict, since
+ * the process manager replaces those processes during the deploy. With
+ * blue/green deploys both colours' ports are checked.
+ */
+export class PortChecker {
+    private logger: Logger;
+    private system: SystemUtils;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+    }
+
+    async findConflicts(config: DeployConfig, project: NeexProject, processes: ProcessManager): Promise<PortConflict[]> {
+        // Compose refuses a taken host port itself, and the running stack holds
+        // its ports through Docker's proxy, which cannot be traced to the apps
+        if (config.target === 'docker') return [];
+        // The apps run on the nodes, not where Nginx balances across them
+        if (config.hosts?.length) return [];
+
+        const conflicts: PortConflict[] = [];
+        const portSets = config.blueGreen ? COLOURS.map(colour => getColourConfig(config, colour)) : [config];
+
+        for (const ports of portSets) {
+            conflicts.push(...await this.findSetConflicts(config, ports, project, processes));
+        }
+
+        return conflicts;
+    }
+
+    // A colour's ports may also be held by the apps of a deploy from before blue/green, which it replaces
+    private async findSetConflicts(config: DeployConfig, ports: DeployConfig, project: NeexProject, processes: ProcessManager): Promise<PortConflict[]> {
+        const conflicts: PortConflict[] = [];
+        const colour = ports.colour;
+        const roles: Array<[AppRole, number]> = [];
+        if (hasClientProcess(config, project)) roles.push(['client', ports.clientPort]);
+        if (project.hasServer) roles.push(['server', ports.serverPort]);
+
+        if (roles.length === 2 && ports.clientPort === ports.serverPort) {
+            conflicts.push({ role: 'server', port: ports.serverPort, pids: [], colour });
+            roles.pop();
+        }
+
+        for (const [role, port] of roles) {
+            if (await this.system.isPortAvailable(port)) continue;
+
+            const listeners = await this.getListeners(port);
+            const owners = await processes.getPids(ports, project, role);
+            if (colour) {
+                owners.push(...await processes.getPids(config, project, role));
+            }
+
+            if (listeners.length > 0 && owners.length > 0 && await this.allOwned(listeners, owners)) {
+                this.logger.info(colour
+                    ? `Port ${port} is held by the ${colour} ${role} app`
+                    : `Port ${port} is held by the running ${role} app; it will be replaced`);
+                continue;
+            }
+
+            conflicts.push({ role, port, pids: listeners, colour });
+        }
+
+        return conflicts;
+    }
+
+    /**
+     * The first port above `port` that is free and not in `reserved`.
+     */
+    async findFreePort(port: number, reserved: number[] = []): Promise<number> {
+        for (let candidate = port + 1; candidate <= 65535; candidate++) {
+            if (!reserved.includes(candidate) && await this.system.isPortAvailable(candidate)) {
+                return candidate;
+            }
+        }
+        throw new Error(`No free port found above ${port}`);
+    }
+
+    private async getListeners(port: number): Promise<number[]> {
+        // Without root, other users' processes are listed without a pid
+        if (this.system.getOS() === 'linux' && await this.system.checkCommand('ss')) {
+            const result = await this.system.probeCommand('ss', ['-ltnpH', `sport = :${port}`]);
+            const pids = [...result.stdout.matchAll(/pid=(\d+)/g)].map(match => parseInt(match[1]));
+            return [...new Set(pids)];
+        }
+
+        const result = await this.system.probeCommand('lsof', ['-nP', `-iTCP:${port}`, '-sTCP:LISTEN', '-t']);
+        return result.stdout.split('\n').filter(line => /^\d+$/.test(line.trim())).map(line => parseInt(line));
+    }
+
+    private async allOwned(listeners: number[], owners: number[]): Promise<boolean> {
+        for (const pid of listeners) {
+            if (!await this.descendsFrom(pid, owners)) return false;
+        }
+        return true;
+    }
+
+    // Package manager launches put the real listener a few levels below the managed pid
+    private async descendsFrom(pid: number, owners: number[]): Promise<boolean> {
+        let current = pid;
+
+        for (let depth = 0; depth < MAX_PROCESS_DEPTH && current > 1; depth++) {
+            if (owners.includes(current)) return true;
+
+            const result = await this.system.probeCommand('ps', ['-o', 'ppid=', '-p', String(current)]);
+            if (result.exitCode !== 0) return false;
+            current = parseInt(result.stdout.trim());
+        }
+
+        return false;
+    }
+}
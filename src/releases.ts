@@ -0,0 +1,166 @@
+// src/releases.ts
+import path from 'path';
+import { NeexProject, ReleaseConfig } from './types.js';
+import { DEFAULT_KEY_FILE } from './secrets.js';
+import { Logger } from './utils/logger.js';
+import { SystemUtils } from './utils/system.js';
+import { shellQuote } from './utils/transport.js';
+
+export const DEFAULT_KEEP_RELEASES = 5;
+export const DEFAULT_SHARED_PATHS = ['.env', 'uploads'];
+
+// Never copied into a release: reinstalled, linked from shared/, VCS state, or the secrets key
+const COPY_EXCLUDES = ['node_modules', '.git', '.env', path.basename(DEFAULT_KEY_FILE)];
+
+/**
+ * The same project at another root, e.g. a release directory or the copy
+ * on a remote server.
+ */
+export function relocateProject(project: NeexProject, rootPath: string): NeexProject {
+    return {
+        ...project,
+        rootPath,
+        clientPath: path.join(rootPath, path.relative(project.rootPath, project.clientPath)),
+        serverPath: path.join(rootPath, path.relative(project.rootPath, project.serverPath))
+    };
+}
+
+export interface Release {
+    name: string;
+    path: string;
+    project: NeexProject;
+}
+
+/**
+ * Capistrano-style layout under `releases.path`:
+ *
+ *   releases/<timestamp>/  one full copy of the project per deploy
+ *   shared/                files and directories that outlive releases
+ *   current -> releases/<timestamp>
+ */
+export class ReleaseManager {
+    private logger: Logger;
+    private system: SystemUtils;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+    }
+
+    getCurrentPath(config: ReleaseConfig): string {
+        return path.join(path.resolve(config.path), 'current');
+    }
+
+    /**
+     * The project as seen through the `current` symlink. PM2 runs from here
+     * so that switching the link is all a reload needs.
+     */
+    getCurrentProject(config: ReleaseConfig, project: NeexProject): NeexProject {
+        return relocateProject(project, this.getCurrentPath(config));
+    }
+
+    async list(config: ReleaseConfig): Promise<string[]> {
+        return (await this.system.listDirectories(this.getReleasesDir(config))).sort();
+    }
+
+    async getActive(config: ReleaseConfig): Promise<string | null> {
+        const target = await this.system.readLink(this.getCurrentPath(config));
+        return target ? path.basename(target) : null;
+    }
+
+    /**
+     * Copies the project into a new release directory, or with `sha`
+     * exports that commit from the project's repository instead.
+     */
+    async create(config: ReleaseConfig, project: NeexProject, sha?: string): Promise<Release> {
+        const name = await this.getNewName(config);
+        const releasePath = path.join(this.getReleasesDir(config), name);
+        const basePath = path.relative(project.rootPath, path.resolve(config.path));
+
+        this.logger.step(`Creating release ${name}...`);
+
+        // The release base may live inside the project; never copy it into itself
+        const exclude = basePath && !basePath.startsWith('..') && !path.isAbsolute(basePath)
+            ? [...COPY_EXCLUDES, basePath]
+            : COPY_EXCLUDES;
+
+        await this.system.ensureDir(releasePath);
+        if (sha) {
+            await this.system.executeShell(`git archive --format=tar ${sha} | tar -xf - -C ${shellQuote(releasePath)}`, { cwd: project.rootPath });
+        } else {
+            await this.system.copyPath(project.rootPath, releasePath, exclude);
+        }
+
+        await this.linkShared(config, project, releasePath);
+
+        this.logger.success(`Release ${name} created`);
+        return { name, path: releasePath, project: relocateProject(project, releasePath) };
+    }
+
+    async activate(config: ReleaseConfig, name: string): Promise<void> {
+        await this.system.switchSymlink(path.join('releases', name), this.getCurrentPath(config));
+        this.logger.success(`current -> releases/${name}`);
+    }
+
+    /**
+     * Removes the oldest releases beyond `keep`. The active release is
+     * always kept, even when a rollback made it one of the oldest, and so
+     * is every release in `inUse`.
+     */
+    async prune(config: ReleaseConfig, inUse: string[] = []): Promise<void> {
+        const keep = config.keep ?? DEFAULT_KEEP_RELEASES;
+        const releases = await this.list(config);
+        const active = await this.getActive(config);
+        const stale = releases.slice(0, Math.max(0, releases.length - keep)).filter(name => name !== active && !inUse.includes(name));
+
+        for (const name of stale) {
+            await this.system.removePath(path.join(this.getReleasesDir(config), name));
+        }
+
+        if (stale.length > 0) {
+            this.logger.info(`Pruned ${stale.length} old release(s)`);
+        }
+    }
+
+    private async linkShared(config: ReleaseConfig, project: NeexProject, releasePath: string): Promise<void> {
+        const sharedDir = path.join(path.resolve(config.path), 'shared');
+
+        for (const entry of config.shared ?? DEFAULT_SHARED_PATHS) {
+            const sharedPath = path.join(sharedDir, entry);
+            const releaseEntry = path.join(releasePath, entry);
+
+            if (!await this.system.pathExists(sharedPath)) {
+                const sourcePath = path.join(project.rootPath, entry);
+
+                if (await this.system.pathExists(sourcePath)) {
+                    // Seed shared/ from the project on the first deploy
+                    await this.system.copyPath(sourcePath, sharedPath);
+                } else if (!path.basename(entry).includes('.')) {
+                    // Entries without an extension are treated as directories
+                    await this.system.ensureDir(sharedPath);
+                } else {
+                    await this.system.ensureDir(path.dirname(sharedPath));
+                }
+            }
+
+            await this.system.removePath(releaseEntry);
+            await this.system.ensureDir(path.dirname(releaseEntry));
+            await this.system.switchSymlink(path.relative(path.dirname(releaseEntry), sharedPath), releaseEntry);
+        }
+    }
+
+    private getReleasesDir(config: ReleaseConfig): string {
+        return path.join(path.resolve(config.path), 'releases');
+    }
+
+    // Millisecond timestamps, with a suffix should a release of the same millisecond exist
+    private async getNewName(config: ReleaseConfig): Promise<string> {
+        const timestamp = new Date().toISOString().replace(/[-:T.Z]/g, '');
+        let name = timestamp;
+        for (let n = 2; await this.system.pathExists(path.join(this.getReleasesDir(config), name)); n++) {
+            name = `${timestamp}-${n}`;
+        }
+        return name;
+    }
+}
+
@@ -0,0 +1,152 @@
+// src/remote.ts
+import { execa } from 'execa';
+import path from 'path';
+import { DeployConfig, NeexProject } from './types.js';
+import { relocateProject } from './releases.js';
+import { DEFAULT_KEY_FILE } from './secrets.js';
+import { Logger } from './utils/logger.js';
+import { SystemUtils } from './utils/system.js';
+import { LocalTransport, SshTransport, Transport, TransportError, shellQuote } from './utils/transport.js';
+
+// Installed on the server, kept by the server, VCS state, or the secrets key
+const SYNC_EXCLUDES = ['node_modules', '.git', '.env', DEFAULT_KEY_FILE];
+
+/**
+ * The transport for the configured target: SSH to `remote.host` (already
+ * connected), or this machine.
+ */
+export async function openTransport(config: DeployConfig): Promise<Transport> {
+    if (!config.remote?.host) {
+        return new LocalTransport();
+    }
+
+    const transport = new SshTransport(config.remote.host, {
+        port: config.remote.port,
+        identityFile: config.remote.identityFile
+    });
+    await transport.open();
+    return transport;
+}
+
+export function getRemoteRoot(config: DeployConfig, homeDir: string): string {
+    const configured = config.remote?.path ?? config.projectName;
+    return configured.startsWith('~/')
+        ? path.posix.join(homeDir, configured.slice(2))
+        : path.posix.resolve(homeDir, configured);
+}
+
+/**
+ * The configuration and project as the server sees them: the project is
+ * moved to its directory there, and a relative `releases.path` is taken
+ * from that directory just as it is from the project root locally.
+ */
+export function getRemoteTarget(config: DeployConfig, project: NeexProject, homeDir: string): { config: DeployConfig; project: NeexProject } {
+    const rootPath = getRemoteRoot(config, homeDir);
+    const releases = config.releases && { ...config.releases, path: path.posix.resolve(rootPath, config.releases.path) };
+
+    return {
+        config: { ...config, releases },
+        project: relocateProject(project, rootPath)
+    };
+}
+
+/**
+ * Copies the local project to the server before the pipeline runs there.
+ * With rsync on both ends only changed files are sent and .gitignore is
+ * respected; otherwise a tar stream over SSH sends everything but the
+ * fixed exclusions. With `git.ref` the commit is exported from the local
+ * repository instead of sending the working tree. Nothing is deleted on
+ * the server, so generated files and the apps that are still running are
+ * left alone.
+ */
+export class ProjectSync {
+    private logger: Logger;
+    private system: SystemUtils;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+    }
+
+    async upload(config: DeployConfig, source: NeexProject, rootPath: string): Promise<void> {
+        const transport = this.system.getTransport();
+        if (!(transport instanceof SshTransport)) {
+            throw new TransportError('The project can only be uploaded over SSH');
+        }
+
+        // Build output is usually ignored by git, so an artifact upload cannot go by .gitignore
+        const artifact = config.remote?.sync === 'artifact';
+        if (artifact) {
+            await this.buildLocally(source);
+        }
+
+        this.logger.step(`Uploading the ${artifact ? 'build' : 'project'} to ${transport.label}:${rootPath}...`);
+        this.system.addPlanNote(`Probes look at ${rootPath} on ${transport.label} as it is now, before the upload`);
+        await this.system.ensureDir(rootPath);
+
+        if (config.git?.ref && config.revision) {
+            await this.uploadRevision(transport, config.revision.sha, source, rootPath);
+            this.logger.success(`${config.git.ref} uploaded to ${transport.label}`);
+            return;
+        }
+
+        const exclude = [...SYNC_EXCLUDES];
+        if (config.secrets?.keyFile) {
+            exclude.push(path.relative(source.rootPath, path.resolve(source.rootPath, config.secrets.keyFile)));
+        }
+
+        if (await this.hasLocalCommand('rsync') && await this.system.checkCommand('rsync')) {
+            const args = [
+                '--archive', '--compress',
+                '-e', ['ssh', ...transport.getSshArgs()].map(shellQuote).join(' '),
+                ...exclude.map(pattern => `--exclude=${pattern}`),
+                ...(artifact ? [] : ['--filter=:- .gitignore']),
+                './',
+                `${transport.getDestination()}:${rootPath}/`
+            ];
+
+            await this.system.runTask(`rsync ${args.map(shellQuote).join(' ')}`, async () => {
+                await execa('rsync', args, { cwd: source.rootPath, stdio: 'inherit' });
+            });
+        } else {
+            const args = ['-czf', '-', ...exclude.map(pattern => `--exclude=${pattern}`), '.'];
+            const extract = `tar -xzf - -C ${shellQuote(rootPath)}`;
+
+            await this.system.runTask(`tar ${args.join(' ')} | ssh ${transport.getDestination()} ${shellQuote(extract)}`, async () => {
+                // COPYFILE_DISABLE keeps macOS tar from adding ._ resource fork files
+                const archive = execa('tar', args, { cwd: source.rootPath, env: { COPYFILE_DISABLE: '1' } });
+                const upload = execa('ssh', [...transport.getSshArgs(), transport.getDestination(), extract], { stdout: 'inherit' });
+                archive.stdout!.pipe(upload.stdin!);
+                await Promise.all([archive, upload]);
+            });
+        }
+
+        this.logger.success(`Project uploaded to ${transport.label}`);
+    }
+
+    private async uploadRevision(transport: SshTransport, sha: string, source: NeexProject, rootPath: string): Promise<void> {
+        const extract = `tar -xzf - -C ${shellQuote(rootPath)}`;
+
+        await this.system.runTask(`git archive --format=tar.gz ${sha} | ssh ${transport.getDestination()} ${shellQuote(extract)}`, async () => {
+            const archive = execa('git', ['archive', '--format=tar.gz', sha], { cwd: source.rootPath });
+            const upload = execa('ssh', [...transport.getSshArgs(), transport.getDestination(), extract], { stdout: 'inherit' });
+            archive.stdout!.pipe(upload.stdin!);
+            await Promise.all([archive, upload]);
+        });
+    }
+
+    private async buildLocally(project: NeexProject): Promise<void> {
+        this.logger.step('Building locally...');
+
+        await this.system.runTask(`${project.packageManager} install && ${project.packageManager} run build (locally)`, async () => {
+            await execa(project.packageManager, ['install'], { cwd: project.rootPath, stdio: 'inherit' });
+            await execa(project.packageManager, ['run', 'build'], { cwd: project.rootPath, stdio: 'inherit' });
+        });
+
+        this.logger.success('Project built locally');
+    }
+
+    private async hasLocalCommand(command: string): Promise<boolean> {
+        return (await execa('which', [command], { reject: false })).exitCode === 0;
+    }
+}
@@ -0,0 +1,57 @@
+// src/secrets.test.ts
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { describe, it } from 'node:test';
+import { decryptSecrets, encryptSecrets, SecretsKey } from './secrets.js';
+
+const plaintext = 'DATABASE_URL=postgres://user:pass@db/app\nJWT_SECRET="multi\\nline"\n';
+
+describe('encryptSecrets and decryptSecrets', () => {
+    it('round-trips with a key', () => {
+        const secretsKey: SecretsKey = { kind: 'key', key: crypto.randomBytes(32) };
+        const content = encryptSecrets(plaintext, secretsKey);
+
+        assert.equal(JSON.parse(content).kdf, 'key');
+        assert.ok(!content.includes('postgres'));
+        assert.equal(decryptSecrets(content, secretsKey), plaintext);
+    });
+
+    it('round-trips with a passphrase', () => {
+        const content = encryptSecrets(plaintext, { kind: 'passphrase', passphrase: 'correct horse' });
+
+        assert.equal(JSON.parse(content).kdf, 'scrypt');
+        assert.equal(decryptSecrets(content, { kind: 'passphrase', passphrase: 'correct horse' }), plaintext);
+        assert.throws(() => decryptSecrets(content, { kind: 'passphrase', passphrase: 'wrong horse' }),
+            { name: 'SecretsError', message: /wrong key or passphrase/ });
+    });
+
+    it('uses a fresh IV for every encryption', () => {
+        const secretsKey: SecretsKey = { kind: 'key', key: crypto.randomBytes(32) };
+        assert.notEqual(encryptSecrets(plaintext, secretsKey), encryptSecrets(plaintext, secretsKey));
+    });
+
+    it('rejects a wrong key and the wrong kind of key', () => {
+        const content = encryptSecrets(plaintext, { kind: 'key', key: crypto.randomBytes(32) });
+
+        assert.throws(() => decryptSecrets(content, { kind: 'key', key: crypto.randomBytes(32) }), /wrong key or passphrase/);
+        assert.throws(() => decryptSecrets(content, { kind: 'passphrase', passphrase: 'x' }), /encrypted with a key file/);
+    });
+
+    it('rejects modified data and a modified header', () => {
+        const secretsKey: SecretsKey = { kind: 'key', key: crypto.randomBytes(32) };
+        const file = JSON.parse(encryptSecrets(plaintext, secretsKey));
+
+        const data = Buffer.from(file.data, 'base64');
+        data[0] ^= 1;
+        assert.throws(() => decryptSecrets(JSON.stringify({ ...file, data: data.toString('base64') }), secretsKey), /was modified/);
+
+        // Relabelling a key-encrypted file as passphrase-encrypted does not get it past the check
+        assert.throws(() => decryptSecrets(JSON.stringify({ ...file, kdf: 'scrypt' }), { kind: 'passphrase', passphrase: 'x' }), /was modified/);
+    });
+
+    it('rejects files it cannot read', () => {
+        const secretsKey: SecretsKey = { kind: 'key', key: crypto.randomBytes(32) };
+        assert.throws(() => decryptSecrets('DATABASE_URL=x', secretsKey), { message: 'Not a deploy-neex secrets file' });
+        assert.throws(() => decryptSecrets('{"version":2}', secretsKey), { message: 'Unsupported secrets file version 2' });
+    });
+});
@@ -0,0 +1,254 @@
+// src/secrets.ts
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { DeployConfig, NeexProject } from './types.js';
+import { EnvFile } from './env.js';
+import { readCommittedFile } from './git.js';
+import { Logger } from './utils/logger.js';
+import { SystemUtils } from './utils/system.js';
+
+export const DEFAULT_KEY_FILE = '.deploy-neex/secrets.key';
+// Read by deploys that cannot prompt, e.g. CI
+export const KEY_ENV_VAR = 'DEPLOY_NEEX_SECRETS_KEY';
+export const PASSPHRASE_ENV_VAR = 'DEPLOY_NEEX_PASSPHRASE';
+
+const FORMAT_VERSION = 1;
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+interface EncryptedFile {
+    version: number;
+    kdf: 'key' | 'scrypt';
+    salt?: string;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+// Either a raw key or a passphrase to derive one from
+export type SecretsKey =
+    | { kind: 'key'; key: Buffer }
+    | { kind: 'passphrase'; passphrase: string };
+
+export class SecretsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SecretsError';
+    }
+}
+
+export function encryptSecrets(plaintext: string, secretsKey: SecretsKey): string {
+    const salt = secretsKey.kind === 'passphrase' ? crypto.randomBytes(16) : undefined;
+    const key = deriveKey(secretsKey, salt);
+    const iv = crypto.randomBytes(12);
+    const kdf = secretsKey.kind === 'passphrase' ? 'scrypt' : 'key';
+
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(Buffer.from(`deploy-neex:${FORMAT_VERSION}:${kdf}`));
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+    const file: EncryptedFile = {
+        version: FORMAT_VERSION,
+        kdf,
+        salt: salt?.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64')
+    };
+
+    return JSON.stringify(file, null, 2) + '\n';
+}
+
+export function decryptSecrets(content: string, secretsKey: SecretsKey): string {
+    let file: EncryptedFile;
+    try {
+        file = JSON.parse(content);
+    } catch {
+        throw new SecretsError('Not a deploy-neex secrets file');
+    }
+
+    if (file.version !== FORMAT_VERSION) {
+        throw new SecretsError(`Unsupported secrets file version ${file.version}`);
+    }
+    if ((file.kdf === 'scrypt') !== (secretsKey.kind === 'passphrase')) {
+        throw new SecretsError(file.kdf === 'scrypt'
+            ? 'This file was encrypted with a passphrase'
+            : 'This file was encrypted with a key file');
+    }
+
+    const key = deriveKey(secretsKey, file.salt ? Buffer.from(file.salt, 'base64') : undefined);
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(file.iv, 'base64'));
+    decipher.setAAD(Buffer.from(`deploy-neex:${file.version}:${file.kdf}`));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+
+    try {
+        return Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+        throw new SecretsError('Could not decrypt: wrong key or passphrase, or the file was modified');
+    }
+}
+
+export function getSecretsPath(rootPath: string, environment: string): string {
+    return path.join(rootPath, `.env.${environment}.enc`);
+}
+
+// homeDir is the deploy target's, which differs from ours when deploying over SSH
+export function getRuntimeSecretsFile(config: DeployConfig, homeDir: string): string {
+    return config.secrets?.runtimeFile
+        ?? path.join(homeDir, '.deploy-neex', config.projectName, `${config.environment}.env`);
+}
+
+/**
+ * The runtime file the process manager should load, or null when the
+ * project keeps no encrypted secrets for this environment.
+ */
+export async function findRuntimeSecretsFile(config: DeployConfig, project: NeexProject, system: SystemUtils): Promise<string | null> {
+    return await system.pathExists(getSecretsPath(project.rootPath, config.environment))
+        ? getRuntimeSecretsFile(config, system.getHomeDir())
+        : null;
+}
+
+function deriveKey(secretsKey: SecretsKey, salt?: Buffer): Buffer {
+    if (secretsKey.kind === 'key') {
+        return secretsKey.key;
+    }
+    return crypto.scryptSync(secretsKey.passphrase, salt ?? Buffer.alloc(0), KEY_LENGTH, SCRYPT_OPTIONS);
+}
+
+/**
+ * Manages `.env.<environment>.enc`, an AES-256-GCM encrypted env file that
+ * can be committed. Deploys decrypt it to a runtime file outside the
+ * release directory, which the process manager loads.
+ */
+export class SecretsManager {
+    private logger: Logger;
+    private system: SystemUtils;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+    }
+
+    getKeyFile(rootPath: string, config: Partial<DeployConfig>): string {
+        return path.resolve(rootPath, config.secrets?.keyFile ?? DEFAULT_KEY_FILE);
+    }
+
+    /**
+     * The key from the environment, a passphrase from the environment, or
+     * the key file, in that order. Returns null when none is available.
+     */
+    async resolveKey(rootPath: string, config: Partial<DeployConfig>): Promise<SecretsKey | null> {
+        if (process.env[KEY_ENV_VAR]) {
+            return { kind: 'key', key: parseKey(process.env[KEY_ENV_VAR]!, KEY_ENV_VAR) };
+        }
+        if (process.env[PASSPHRASE_ENV_VAR]) {
+            return { kind: 'passphrase', passphrase: process.env[PASSPHRASE_ENV_VAR]! };
+        }
+
+        const keyFile = this.getKeyFile(rootPath, config);
+        if (await fs.pathExists(keyFile)) {
+            return { kind: 'key', key: parseKey(await fs.readFile(keyFile, 'utf-8'), keyFile) };
+        }
+
+        return null;
+    }
+
+    /**
+     * Creates a random key file and keeps it out of git.
+     */
+    async createKeyFile(rootPath: string, config: Partial<DeployConfig>): Promise<SecretsKey> {
+        const keyFile = this.getKeyFile(rootPath, config);
+        const key = crypto.randomBytes(KEY_LENGTH);
+
+        await fs.ensureDir(path.dirname(keyFile));
+        await fs.writeFile(keyFile, key.toString('base64') + '\n', { mode: 0o600 });
+
+        const gitignore = path.join(rootPath, '.gitignore');
+        const entry = path.relative(rootPath, keyFile);
+        const ignored = await fs.pathExists(gitignore) ? await fs.readFile(gitignore, 'utf-8') : '';
+        if (!entry.startsWith('..') && !ignored.split('\n').map(line => line.trim()).includes(entry)) {
+            await fs.appendFile(gitignore, `${ignored && !ignored.endsWith('\n') ? '\n' : ''}${entry}\n`);
+        }
+
+        this.logger.success(`Created ${entry}`);
+        this.logger.warning(`Keep a copy of ${entry} somewhere safe and never commit it; deploy hosts need it (or ${KEY_ENV_VAR})`);
+
+        return { kind: 'key', key };
+    }
+
+    async read(rootPath: string, environment: string, key: SecretsKey): Promise<EnvFile> {
+        const content = await fs.readFile(getSecretsPath(rootPath, environment), 'utf-8');
+        return EnvFile.parse(decryptSecrets(content, key));
+    }
+
+    async write(rootPath: string, environment: string, key: SecretsKey, plaintext: string): Promise<void> {
+        await fs.writeFile(getSecretsPath(rootPath, environment), encryptSecrets(plaintext, key));
+    }
+
+    /**
+     * Decrypts the environment's secrets into the runtime file, readable
+     * by the deploying user only. Returns the values, or null when the
+     * project has no secrets file for this environment.
+     *
+     * The encrypted file and the key are read from `source`, the checkout
+     * deploy-neex was started in: release copies and remote servers never
+     * receive the key file. With git.ref the encrypted file comes from
+     * the deployed commit, like the code, rather than the working tree.
+     */
+    async deploy(config: DeployConfig, source: NeexProject): Promise<Record<string, string> | null> {
+        const encryptedPath = getSecretsPath(source.rootPath, config.environment);
+        const encrypted = await this.readEncrypted(config, encryptedPath);
+        if (encrypted === null) {
+            return null;
+        }
+
+        const key = await this.resolveKey(source.rootPath, config);
+        if (!key) {
+            throw new SecretsError(`${path.basename(encryptedPath)} exists but no key was found. ` +
+                `Provide ${path.relative(source.rootPath, this.getKeyFile(source.rootPath, config))}, ${KEY_ENV_VAR} or ${PASSPHRASE_ENV_VAR}`);
+        }
+
+        const values = EnvFile.parse(decryptSecrets(encrypted, key)).toRecord();
+        const runtimeFile = getRuntimeSecretsFile(config, this.system.getHomeDir());
+
+        // Values are JSON-quoted. The PM2 ecosystem JSON.parses them; systemd's EnvironmentFile only
+        // unescapes \" and \\ inside quotes, which decodes the same unless a value has control characters
+        if (config.target !== 'docker' && config.processManager === 'systemd') {
+            const multiline = Object.keys(values).filter(name => /[\x00-\x1f\x7f]/.test(values[name]));
+            if (multiline.length > 0) {
+                throw new SecretsError(`${multiline.join(', ')} ${multiline.length === 1 ? 'contains' : 'contain'} newlines or other control characters, which systemd's ` +
+                    'EnvironmentFile cannot carry; store them base64-encoded or use processManager pm2');
+            }
+        }
+
+        const content = Object.entries(values).map(([name, value]) => `${name}=${JSON.stringify(value)}`).join('\n') + '\n';
+        await this.system.ensureDir(path.dirname(runtimeFile));
+        await this.system.writeFile(runtimeFile, content, { mode: 0o600, sensitive: true });
+
+        this.logger.success(`Decrypted ${Object.keys(values).length} secret(s) from ${path.basename(encryptedPath)}`);
+        return values;
+    }
+
+    private async readEncrypted(config: DeployConfig, encryptedPath: string): Promise<string | null> {
+        const ref = config.git?.ref;
+        if (!ref || !config.revision) {
+            return await fs.pathExists(encryptedPath) ? await fs.readFile(encryptedPath, 'utf-8') : null;
+        }
+
+        const committed = await readCommittedFile(path.dirname(encryptedPath), config.revision.sha, path.basename(encryptedPath));
+        if (committed === null && await fs.pathExists(encryptedPath)) {
+            this.logger.warning(`${path.basename(encryptedPath)} is not committed at ${ref}, so no secrets are deployed`);
+        }
+        return committed;
+    }
+}
+
+function parseKey(value: string, source: string): Buffer {
+    const key = Buffer.from(value.trim(), 'base64');
+    if (key.length !== KEY_LENGTH) {
+        throw new SecretsError(`${source} must hold a base64-encoded ${KEY_LENGTH}-byte key`);
+    }
+    return key;
+}
@@ -0,0 +1,209 @@
+// src/state.ts
+import path from 'path';
+import { AppConfig, AppRole, Colour, DeployConfig, GitRevision } from './types.js';
+import { maskValue } from './env.js';
+import { Logger } from './utils/logger.js';
+import { SystemUtils, WrittenFile } from './utils/system.js';
+
+export const STATE_VERSION = 1;
+// Older deployments are dropped from the state file beyond this many
+export const MAX_DEPLOYMENTS = 50;
+
+export type DeploymentKind = 'deploy' | 'rollback' | 'switch';
+
+export interface DeploymentStep {
+    // The logger step, e.g. 'Building project'
+    name: string;
+    durationMs: number;
+}
+
+export interface DeploymentRecord {
+    id: string;
+    kind: DeploymentKind;
+    outcome: 'success' | 'failure';
+    error?: string;
+    // 'local' or the SSH destination
+    target: string;
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    revision?: GitRevision;
+    // Set once the run succeeded
+    release?: string;
+    colour?: Colour;
+    // The configuration the run used, with secret-looking app env values masked
+    config: DeployConfig;
+    steps: DeploymentStep[];
+    files: WrittenFile[];
+}
+
+export interface DeploymentState {
+    version: number;
+    projectName: string;
+    deployments: DeploymentRecord[];
+}
+
+export class StateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StateError';
+    }
+}
+
+// homeDir is the deploy target's: the state describes what runs there
+export function getStateFile(config: DeployConfig, homeDir: string): string {
+    return path.join(homeDir, '.deploy-neex', config.projectName, 'state.json');
+}
+
+export function formatDuration(durationMs: number): string {
+    if (durationMs < 1000) return `${durationMs}ms`;
+    if (durationMs < 60_000) return `${(durationMs / 1000).toFixed(1)}s`;
+
+    const seconds = Math.round(durationMs / 1000);
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * Keeps the history of deployments, rollbacks and switches in a state
+ * file on the deploy target, next to the runtime secrets. It lives outside
+ * the project, so recording a deploy never leaves the git tree dirty.
+ */
+export class DeploymentHistory {
+    private logger: Logger;
+    private system: SystemUtils;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+    }
+
+    async load(config: DeployConfig): Promise<DeploymentState> {
+        const file = getStateFile(config, this.system.getHomeDir());
+        const content = await this.system.readFile(file);
+        if (content === null) {
+            return { version: STATE_VERSION, projectName: config.projectName, deployments: [] };
+        }
+
+        let state: DeploymentState;
+        try {
+            state = JSON.parse(content);
+        } catch {
+            throw new StateError(`${file} is not valid JSON`);
+        }
+
+        if (state?.version !== STATE_VERSION || !Array.isArray(state.deployments)) {
+            throw new StateError(`${file} is not a deploy-neex state file (version ${STATE_VERSION})`);
+        }
+        return state;
+    }
+
+    /**
+     * Looks a deployment up by its id, a unique prefix of it, or `latest`.
+     */
+    find(state: DeploymentState, id: string): DeploymentRecord {
+        if (id === 'latest') {
+            const latest = state.deployments[state.deployments.length - 1];
+            if (!latest) {
+                throw new StateError(`No deployments of ${state.projectName} recorded yet`);
+            }
+            return latest;
+        }
+
+        const matches = state.deployments.filter(record => record.id.startsWith(id));
+        if (matches.length === 0) {
+            throw new StateError(`Deployment ${id} not found`);
+        }
+        if (matches.length > 1) {
+            throw new StateError(`${id} matches ${matches.length} deployments: ${matches.map(record => record.id).join(', ')}`);
+        }
+        return matches[0];
+    }
+
+    /**
+     * Runs `task` and records it: how long each step took (a step lasts
+     * until the next logger step or the end of the run), the files it
+     * wrote and how it ended. `describe` adds what is only known once the
+     * run has succeeded, such as the active release. Failing to save the
+     * record is only a warning, so it never hides the outcome of the run.
+     */
+    async record(kind: DeploymentKind, config: DeployConfig, task: () => Promise<void>,
+        describe?: () => Promise<Partial<DeploymentRecord>>): Promise<void> {
+        const startedAt = new Date();
+        const steps: DeploymentStep[] = [];
+        let current: { name: string; started: number } | null = null;
+
+        const endStep = () => {
+            if (current) {
+                steps.push({ name: current.name, durationMs: Date.now() - current.started });
+            }
+        };
+
+        this.system.takeWrittenFiles();
+        this.logger.onStep(message => {
+            endStep();
+            current = { name: message.replace(/\.\.\.$/, ''), started: Date.now() };
+        });
+
+        let failure: unknown;
+        try {
+            await task();
+        } catch (error) {
+            failure = error;
+        } finally {
+            endStep();
+            this.logger.onStep(undefined);
+        }
+
+        const finishedAt = new Date();
+        const details = failure === undefined && describe ? await describe().catch(() => ({})) : {};
+        const record: Omit<DeploymentRecord, 'id'> = {
+            kind,
+            outcome: failure === undefined ? 'success' : 'failure',
+            error: failure === undefined ? undefined : failure instanceof Error ? failure.message : String(failure),
+            target: this.system.getTransport().label,
+            startedAt: startedAt.toISOString(),
+            finishedAt: finishedAt.toISOString(),
+            durationMs: finishedAt.getTime() - startedAt.getTime(),
+            revision: config.revision,
+            ...details,
+            config: this.snapshot(config),
+            steps,
+            files: this.system.takeWrittenFiles()
+        };
+
+        try {
+            await this.append(config, record);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.logger.warning(`Could not record the ${kind} in the deployment history: ${errorMessage}`);
+        }
+
+        if (failure !== undefined) {
+            throw failure;
+        }
+    }
+
+    private async append(config: DeployConfig, record: Omit<DeploymentRecord, 'id'>): Promise<void> {
+        const state = await this.load(config);
+        // Ids are the start time to the second; runs within the same second get a suffix
+        const base = record.startedAt.replace(/[-:T]/g, '').slice(0, 14);
+        let id = base;
+        for (let n = 2; state.deployments.some(existing => existing.id === id); n++) {
+            id = `${base}-${n}`;
+        }
+
+        state.deployments = [...state.deployments, { id, ...record }].slice(-MAX_DEPLOYMENTS);
+        await this.system.writeFile(getStateFile(config, this.system.getHomeDir()), JSON.stringify(state, null, 2) + '\n', { mode: 0o600 });
+        this.system.takeWrittenFiles();
+    }
+
+    // The revision and colour are recorded on their own
+    private snapshot(config: DeployConfig): DeployConfig {
+        const apps = config.apps && Object.fromEntries(Object.entries(config.apps).map(([role, app]) => [role, {
+            ...app,
+            env: app?.env && Object.fromEntries(Object.entries(app.env).map(([key, value]) => [key, maskValue(key, value)]))
+        }])) as Partial<Record<AppRole, AppConfig>>;
+
+        return { ...config, apps, revision: undefined, colour: undefined };
+    }
+}
@@ -0,0 +1,55 @@
+// src/templates.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { renderTemplate, TemplateError } from './templates.js';
+
+describe('renderTemplate', () => {
+    it('outputs values by their dotted path', () => {
+        assert.equal(renderTemplate('server_name {{ config.domain }};', { config: { domain: 'example.com' } }), 'server_name example.com;');
+    });
+
+    it('fails on unknown variables and unset values', () => {
+        assert.throws(() => renderTemplate('{{ domain }}', {}, 'nginx.conf'),
+            { name: 'TemplateError', message: "nginx.conf:1: unknown variable 'domain'" });
+        assert.throws(() => renderTemplate('\n{{ config.email }}', { config: {} }, 'nginx.conf'),
+            { message: "nginx.conf:2: 'config.email' is not set; guard it with {{#if}} or add | default" });
+        assert.throws(() => renderTemplate('{{ config }}', { config: {} }),
+            { message: "template:1: 'config' is not a plain value; use | json or {{#each}}" });
+    });
+
+    it('applies filters', () => {
+        const context = { names: ['a', 'b'], empty: '', app: { name: 'api' }, value: 'say "100%" \\o/' };
+
+        assert.equal(renderTemplate('{{ names | join }}', context), 'a, b');
+        assert.equal(renderTemplate('{{ names | join " | " }}', context), 'a | b');
+        assert.equal(renderTemplate('{{ empty | default "none" }}', context), 'none');
+        assert.equal(renderTemplate('{{ app | json }}', context), '{\n  "name": "api"\n}');
+        assert.equal(renderTemplate('{{ value | systemd }}', context), 'say \\"100%%\\" \\\\o/');
+        assert.throws(() => renderTemplate('{{ app | upper }}', context), TemplateError);
+    });
+
+    it('renders conditionals with comparisons', () => {
+        const template = '{{#if config.ssl}}https{{else}}http{{/if}}:{{#if target == "docker"}}d{{/if}}{{#if !config.ssl}}!{{/if}}';
+
+        assert.equal(renderTemplate(template, { config: { ssl: true }, target: 'docker' }), 'https:d');
+        assert.equal(renderTemplate(template, { config: { ssl: false }, target: 'host' }), 'http:!');
+    });
+
+    it('loops over lists and mappings', () => {
+        assert.equal(renderTemplate('{{#each items as item}}{{ @index }}={{ item }}{{#if !@last}},{{/if}}{{/each}}', { items: ['x', 'y'] }), '0=x,1=y');
+        assert.equal(renderTemplate('{{#each env as key, value}}{{ key }}={{ value }};{{/each}}', { env: { A: '1', B: '2' } }), 'A=1;B=2;');
+        assert.equal(renderTemplate('[{{#each missing.list as item}}{{ item }}{{/each}}]', { missing: {} }), '[]');
+    });
+
+    it('drops the line of a block tag that stands alone', () => {
+        const template = 'start\n    {{#if on}}\n    on\n    {{/if}}\nend\n';
+        assert.equal(renderTemplate(template, { on: true }), 'start\n    on\nend\n');
+        assert.equal(renderTemplate(template, { on: false }), 'start\nend\n');
+    });
+
+    it('reports unbalanced blocks with their line', () => {
+        assert.throws(() => renderTemplate('a\n{{#if x}}\nb', { x: true }), { message: 'template:2: {{#if}} is never closed' });
+        assert.throws(() => renderTemplate('{{/each}}', {}), { message: 'template:1: unexpected {{/each}}' });
+        assert.throws(() => renderTemplate('{{#each items}}{{/each}}', { items: [] }), /expected \{\{#each <list> as <name>\}\}/);
+    });
+});
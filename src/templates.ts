@@ -0,0 +1,395 @@
+// src/templates.ts
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DeployConfig, NeexProject } from './types.js';
+import { Logger } from './utils/logger.js';
+import { SystemUtils } from './utils/system.js';
+
+// Shipped next to src/ and dist/, so this resolves from either
+const BUILTIN_TEMPLATE_DIR = fileURLToPath(new URL('../templates/', import.meta.url));
+export const TEMPLATE_OVERRIDE_DIR = '.deploy-neex/templates';
+
+export type TemplateName =
+    | 'nginx.conf'
+    | 'nginx-setup.md'
+    | 'ecosystem.config.js'
+    | 'systemd.service'
+    | 'env'
+    | 'status.sh'
+    | 'restart.sh'
+    | 'Dockerfile'
+    | 'docker-compose.yml'
+    | 'dockerignore';
+
+/**
+ * What every template can use; each artifact adds its own values.
+ */
+export interface TemplateContext {
+    config: DeployConfig;
+    project: NeexProject;
+    [key: string]: unknown;
+}
+
+export class TemplateError extends Error {
+    readonly template: string;
+    readonly line?: number;
+
+    constructor(template: string, message: string, line?: number) {
+        super(`${template}${line ? `:${line}` : ''}: ${message}`);
+        this.name = 'TemplateError';
+        this.template = template;
+        this.line = line;
+    }
+}
+
+type Expression =
+    | { kind: 'literal'; value: unknown }
+    | { kind: 'path'; path: string }
+    | { kind: 'not'; operand: Expression }
+    | { kind: 'compare'; operator: '==' | '!='; left: Expression; right: Expression };
+
+type TemplateNode =
+    | { kind: 'text'; text: string }
+    | { kind: 'output'; expression: Expression; filters: string[][]; line: number }
+    | { kind: 'if'; condition: Expression; then: TemplateNode[]; otherwise: TemplateNode[]; line: number }
+    | { kind: 'each'; list: Expression; names: string[]; body: TemplateNode[]; line: number };
+
+interface Tag {
+    body: string;
+    line: number;
+}
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const BLOCK_TAG = /^(#|\/|else$)/;
+
+/**
+ * Renders the small template language used for generated files:
+ *
+ *   {{ config.domain }}                   output, failing on unknown or missing values
+ *   {{ apps | json }}                     filters: json, join ", ", default "x",
+ *                                         systemd (escapes for a quoted unit file value)
+ *   {{#if config.ssl}} … {{else}} … {{/if}}   with !, == and != against literals
+ *   {{#each items as item}} … {{/each}}   arrays; `as key, value` for mappings,
+ *                                         @index, @first and @last inside
+ *
+ * Block tags on a line of their own take the whole line with them.
+ */
+export function renderTemplate(source: string, context: Record<string, unknown>, name: string = 'template'): string {
+    const nodes = parse(tokenize(source), name);
+    return renderNodes(nodes, [context], name);
+}
+
+function tokenize(source: string): Array<string | Tag> {
+    const tokens: Array<string | Tag> = [];
+    let cursor = 0;
+
+    for (const match of source.matchAll(TAG_PATTERN)) {
+        let start = match.index!;
+        let end = start + match[0].length;
+        const body = match[1];
+
+        if (BLOCK_TAG.test(body)) {
+            const lineStart = Math.max(source.lastIndexOf('\n', start - 1) + 1, cursor);
+            const newline = source.indexOf('\n', end);
+            const lineEnd = newline === -1 ? source.length : newline + 1;
+            if (!source.slice(lineStart, start).trim() && !source.slice(end, lineEnd).trim()) {
+                start = lineStart;
+                end = lineEnd;
+            }
+        }
+
+        tokens.push(source.slice(cursor, start));
+        tokens.push({ body, line: source.slice(0, match.index!).split('\n').length });
+        cursor = end;
+    }
+
+    tokens.push(source.slice(cursor));
+    return tokens;
+}
+
+function parse(tokens: Array<string | Tag>, name: string): TemplateNode[] {
+    let position = 0;
+
+    const parseUntil = (closers: string[]): { nodes: TemplateNode[]; closer: string | null } => {
+        const nodes: TemplateNode[] = [];
+
+        while (position < tokens.length) {
+            const token = tokens[position++];
+            if (typeof token === 'string') {
+                if (token) nodes.push({ kind: 'text', text: token });
+                continue;
+            }
+
+            const { body, line } = token;
+            if (closers.includes(body)) {
+                return { nodes, closer: body };
+            }
+            if (body === 'else' || body.startsWith('/')) {
+                throw new TemplateError(name, `unexpected {{${body}}}`, line);
+            }
+
+            if (body.startsWith('#if ')) {
+                const condition = parseExpression(body.slice(4), name, line);
+                const then = parseUntil(['else', '/if']);
+                const otherwise = then.closer === 'else' ? parseUntil(['/if']) : { nodes: [], closer: then.closer };
+                if (otherwise.closer !== '/if') {
+                    throw new TemplateError(name, '{{#if}} is never closed', line);
+                }
+                nodes.push({ kind: 'if', condition, then: then.nodes, otherwise: otherwise.nodes, line });
+                continue;
+            }
+
+            if (body.startsWith('#each ')) {
+                const each = body.slice(6).match(/^(.+?)\s+as\s+(\w+)(?:\s*,\s*(\w+))?$/);
+                if (!each) {
+                    throw new TemplateError(name, `expected {{#each <list> as <name>}}, got {{${body}}}`, line);
+                }
+                const inner = parseUntil(['/each']);
+                if (inner.closer !== '/each') {
+                    throw new TemplateError(name, '{{#each}} is never closed', line);
+                }
+                nodes.push({
+                    kind: 'each',
+                    list: parseExpression(each[1], name, line),
+                    names: [each[2], each[3]].filter(Boolean),
+                    body: inner.nodes,
+                    line
+                });
+                continue;
+            }
+
+            if (body.startsWith('#')) {
+                throw new TemplateError(name, `unknown block {{${body}}}`, line);
+            }
+
+            const [expression, ...filters] = splitOutside(body, '|');
+            nodes.push({
+                kind: 'output',
+                expression: parseExpression(expression, name, line),
+                filters: filters.map(filter => splitOutside(filter.trim(), ' ').filter(Boolean)),
+                line
+            });
+        }
+
+        return { nodes, closer: null };
+    };
+
+    return parseUntil([]).nodes;
+}
+
+// Splits on a separator that is not inside a quoted string
+function splitOutside(value: string, separator: string): string[] {
+    const parts: string[] = [];
+    let quote: string | null = null;
+    let current = '';
+
+    for (const char of value) {
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === separator) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+
+    parts.push(current);
+    return parts.map(part => part.trim());
+}
+
+// Position of a == or != that is not inside a quoted string, or -1
+function findOperator(text: string): number {
+    let quote: string | null = null;
+
+    for (let i = 0; i < text.length - 1; i++) {
+        if (quote) {
+            if (text[i] === quote) quote = null;
+        } else if (text[i] === '"' || text[i] === "'") {
+            quote = text[i];
+        } else if ((text[i] === '=' || text[i] === '!') && text[i + 1] === '=') {
+            return i;
+        }
+    }
+
+    return -1;
+}
+
+function parseExpression(source: string, name: string, line: number): Expression {
+    const text = source.trim();
+
+    const operatorIndex = findOperator(text);
+    if (operatorIndex !== -1) {
+        return {
+            kind: 'compare',
+            operator: text.slice(operatorIndex, operatorIndex + 2) as '==' | '!=',
+            left: parseExpression(text.slice(0, operatorIndex), name, line),
+            right: parseExpression(text.slice(operatorIndex + 2), name, line)
+        };
+    }
+
+    if (text.startsWith('!')) {
+        return { kind: 'not', operand: parseExpression(text.slice(1), name, line) };
+    }
+    if (/^(['"]).*\1$/.test(text)) {
+        return { kind: 'literal', value: text.slice(1, -1) };
+    }
+    if (/^-?\d+(\.\d+)?$/.test(text)) {
+        return { kind: 'literal', value: Number(text) };
+    }
+    if (text === 'true' || text === 'false' || text === 'null') {
+        return { kind: 'literal', value: text === 'null' ? null : text === 'true' };
+    }
+    if (/^@?\w+(\.[\w-]+)*$/.test(text)) {
+        return { kind: 'path', path: text };
+    }
+
+    throw new TemplateError(name, `cannot parse expression '${text}'`, line);
+}
+
+function evaluate(expression: Expression, scopes: Record<string, unknown>[], name: string, line: number): unknown {
+    switch (expression.kind) {
+        case 'literal':
+            return expression.value;
+        case 'not':
+            return !evaluate(expression.operand, scopes, name, line);
+        case 'compare': {
+            const equal = evaluate(expression.left, scopes, name, line) === evaluate(expression.right, scopes, name, line);
+            return expression.operator === '==' ? equal : !equal;
+        }
+        case 'path':
+            return lookup(expression.path, scopes, name, line);
+    }
+}
+
+/**
+ * The first segment has to name a context value or loop variable; past
+ * that, missing keys are undefined so that optional config can be tested.
+ */
+function lookup(dottedPath: string, scopes: Record<string, unknown>[], name: string, line: number): unknown {
+    const [head, ...rest] = dottedPath.split('.');
+    const scope = [...scopes].reverse().find(candidate => head in candidate);
+
+    if (!scope) {
+        throw new TemplateError(name, `unknown variable '${head}'`, line);
+    }
+
+    let value = scope[head];
+    for (const key of rest) {
+        if (value === null || value === undefined) return undefined;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+}
+
+function applyFilter(value: unknown, filter: string[], name: string, line: number): unknown {
+    const [filterName, ...args] = filter;
+    const literal = (index: number) => args[index]?.replace(/^(['"])(.*)\1$/, '$2');
+
+    switch (filterName) {
+        case 'json':
+            return JSON.stringify(value, null, 2);
+        case 'join':
+            if (!Array.isArray(value)) {
+                throw new TemplateError(name, `join expects a list, got ${typeof value}`, line);
+            }
+            return value.join(literal(0) ?? ', ');
+        case 'default':
+            return value === undefined || value === null || value === '' ? literal(0) ?? '' : value;
+        case 'systemd':
+            // Inside "…" systemd unescapes \\ and \" and expands % specifiers
+            return String(value).replace(/[\\"]/g, '\\$&').replace(/%/g, '%%');
+        default:
+            throw new TemplateError(name, `unknown filter '${filterName}'`, line);
+    }
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Record<string, unknown>[], name: string): string {
+    let output = '';
+
+    for (const node of nodes) {
+        switch (node.kind) {
+            case 'text':
+                output += node.text;
+                break;
+
+            case 'output': {
+                let value = evaluate(node.expression, scopes, name, node.line);
+                for (const filter of node.filters) {
+                    value = applyFilter(value, filter, name, node.line);
+                }
+
+                const label = node.expression.kind === 'path' ? node.expression.path : 'expression';
+                if (value === undefined || value === null) {
+                    throw new TemplateError(name, `'${label}' is not set; guard it with {{#if}} or add | default`, node.line);
+                }
+                if (typeof value === 'object') {
+                    throw new TemplateError(name, `'${label}' is not a plain value; use | json or {{#each}}`, node.line);
+                }
+                output += String(value);
+                break;
+            }
+
+            case 'if':
+                output += renderNodes(evaluate(node.condition, scopes, name, node.line) ? node.then : node.otherwise, scopes, name);
+                break;
+
+            case 'each': {
+                const list = evaluate(node.list, scopes, name, node.line);
+                if (list === undefined || list === null) break;
+                if (typeof list !== 'object') {
+                    throw new TemplateError(name, `{{#each}} expects a list or mapping, got ${typeof list}`, node.line);
+                }
+
+                const entries: Array<[unknown, unknown]> = Array.isArray(list)
+                    ? list.map((item, index) => [item, index])
+                    : Object.entries(list).map(([key, item]) => [key, item]);
+
+                entries.forEach(([first, second], index) => {
+                    const [itemName, secondName] = node.names;
+                    const scope: Record<string, unknown> = {
+                        [itemName]: first,
+                        '@index': index,
+                        '@first': index === 0,
+                        '@last': index === entries.length - 1
+                    };
+                    if (secondName) scope[secondName] = second;
+                    output += renderNodes(node.body, [...scopes, scope], name);
+                });
+                break;
+            }
+        }
+    }
+
+    return output;
+}
+
+/**
+ * Loads templates, preferring the project's `.deploy-neex/templates/<name>`
+ * over the built-in one, and renders them with the deploy context.
+ */
+export class TemplateRenderer {
+    private logger: Logger;
+    private system: SystemUtils;
+
+    constructor(logger: Logger, system: SystemUtils) {
+        this.logger = logger;
+        this.system = system;
+    }
+
+    async render(name: TemplateName, context: TemplateContext): Promise<string> {
+        // Overrides live in the project, which may be on the deploy server
+        const override = await this.system.readFile(path.join(context.project.rootPath, TEMPLATE_OVERRIDE_DIR, name));
+
+        if (override !== null) {
+            this.logger.info(`Using custom template ${path.join(TEMPLATE_OVERRIDE_DIR, name)}`);
+            return renderTemplate(override, context, path.join(TEMPLATE_OVERRIDE_DIR, name));
+        }
+
+        const source = await fs.readFile(path.join(BUILTIN_TEMPLATE_DIR, name), 'utf-8');
+        return renderTemplate(source, context, name);
+    }
+}
@@ -4,14 +4,303 @@ export interface DeployConfig {
   domain: string;
   ssl: boolean;
   email?: string;
+  certificate?: CertificateConfig;
   clientPort: number;
   serverPort: number;
   packageManager: 'npm' | 'yarn' | 'pnpm' | 'bun';
   environment: 'production' | 'staging';
   autoStart: boolean;
   nginxConfig: boolean;
+  nginx?: NginxConfig;
+  apps?: Partial<Record<AppRole, AppConfig>>;
+  // 'static' serves the client's exported build from Nginx instead of a Node process
+  clientMode?: 'server' | 'static';
+  // 'docker' builds images and runs the apps and Nginx with docker compose
+  target?: 'host' | 'docker';
+  docker?: DockerConfig;
+  // Deploy to a server over SSH instead of the machine deploy-neex runs on
+  remote?: RemoteConfig;
+  // Backend nodes updated one at a time; Nginx, where deploy-neex would otherwise deploy, balances across them
+  hosts?: HostConfig[];
+  processManager?: 'pm2' | 'systemd';
+  systemd?: SystemdConfig;
+  releases?: ReleaseConfig;
+  // Start each release next to the live one and switch Nginx over once it is healthy; needs releases
+  blueGreen?: BlueGreenConfig;
+  // Set by deploy-neex for the colour being started or managed, never read from deploy.neex.yml
+  colour?: Colour;
+  git?: GitConfig;
+  // The commit being deployed; set by deploy-neex, never read from deploy.neex.yml
+  revision?: GitRevision;
+  healthCheck?: HealthCheckSettings;
+  dotenv?: DotenvConfig;
+  secrets?: SecretsConfig;
+  hooks?: HooksConfig;
+  migrations?: MigrationsConfig;
 }
 
+export interface CertificateConfig {
+  source?: 'certbot' | 'custom' | 'self-signed';
+  certificate?: string;
+  certificateKey?: string;
+  trustedCertificate?: string;
+  webroot?: string;
+  acmeServer?: string;
+  acmeCaBundle?: string;
+  // Also serve and certify www.<domain>
+  includeWww?: boolean;
+}
+
+export interface NginxConfig {
+  api?: NginxApiConfig;
+  // Default request body limit, e.g. '100M'
+  clientMaxBodySize?: string;
+  // limit_req zones that locations refer to by name
+  rateLimits?: Record<string, NginxRateLimit>;
+  locations?: NginxLocationConfig[];
+  headers?: SecurityHeadersConfig;
+  upstream?: NginxUpstreamConfig;
+}
+
+export interface NginxUpstreamConfig {
+  // Round robin unless set
+  method?: 'round-robin' | 'least_conn' | 'ip_hash' | 'random';
+  // Idle connections to the apps each Nginx worker keeps open
+  keepalive?: number;
+  // Failed attempts within failTimeout before a node is skipped for failTimeout
+  maxFails?: number;
+  // Nginx time, e.g. '10s'
+  failTimeout?: string;
+}
+
+export type SecurityHeaderProfile = 'strict' | 'default' | 'legacy';
+
+// Adjusts the headers of the chosen profile: true keeps the profile's value, false removes it
+export interface SecurityHeadersConfig {
+  profile?: SecurityHeaderProfile;
+  // Directive name to sources, e.g. 'script-src': ["'self'", 'https://cdn.example.com']
+  csp?: Record<string, string[] | boolean> | boolean;
+  cspReportOnly?: boolean;
+  // Only sent over HTTPS
+  hsts?: HstsConfig | boolean;
+  // Feature to allowlist, e.g. geolocation: ['self']; an empty list disables the feature
+  permissionsPolicy?: Record<string, string[]> | boolean;
+  crossOriginOpenerPolicy?: 'same-origin' | 'same-origin-allow-popups' | 'unsafe-none' | boolean;
+  crossOriginEmbedderPolicy?: 'require-corp' | 'credentialless' | 'unsafe-none' | boolean;
+}
+
+export interface HstsConfig {
+  // Seconds
+  maxAge?: number;
+  includeSubDomains?: boolean;
+  preload?: boolean;
+}
+
+// Options shared by the API location and extra locations
+export interface NginxLocationOptions {
+  websocket?: boolean;
+  // Server-sent events: no buffering, so events reach the browser as they are sent
+  sse?: boolean;
+  // proxy_read_timeout/proxy_send_timeout in seconds
+  timeout?: number;
+  rateLimit?: NginxRateLimitRef;
+  basicAuth?: NginxBasicAuth;
+  maxBodySize?: string;
+}
+
+export interface NginxApiConfig extends NginxLocationOptions {
+  // Path the server is mounted under, '/api' by default
+  prefix?: string;
+  // Remove the prefix before proxying, so the server sees '/users' for '/api/users'
+  stripPrefix?: boolean;
+}
+
+export interface NginxLocationConfig extends NginxLocationOptions {
+  path: string;
+  // 'client', 'server', or a URL such as http://127.0.0.1:9000
+  proxy: string;
+  stripPrefix?: boolean;
+}
+
+export interface NginxRateLimit {
+  // Requests per second or minute, e.g. '10r/s'
+  rate: string;
+  // Shared memory size, e.g. '10m'
+  size?: string;
+  // Variable requests are counted by
+  key?: string;
+}
+
+export interface NginxRateLimitRef {
+  zone: string;
+  burst?: number;
+  nodelay?: boolean;
+}
+
+export interface NginxBasicAuth {
+  // htpasswd file, e.g. created with `htpasswd -c`
+  userFile: string;
+  realm?: string;
+}
+
+export interface AppConfig {
+  path?: string;
+  framework?: Framework;
+  // Static build output, relative to the app; only used with clientMode 'static'
+  outputDir?: string;
+  instances?: number | 'max';
+  execMode?: 'fork' | 'cluster';
+  maxMemory?: string;
+  nodeArgs?: string[];
+  killTimeout?: number;
+  waitReady?: boolean;
+  listenTimeout?: number;
+  cronRestart?: string;
+  env?: Record<string, string>;
+}
+
+export interface SystemdConfig {
+  user?: string;
+  group?: string;
+  unitDir?: string;
+  restart?: 'always' | 'on-failure';
+  memoryMax?: string;
+}
+
+export interface RemoteConfig {
+  // user@server or a Host from ~/.ssh/config; --host sets it too
+  host?: string;
+  port?: number;
+  identityFile?: string;
+  // Project directory on the server, relative to the SSH user's home; ~/<projectName> by default
+  path?: string;
+  // 'artifact' builds here and uploads the build output instead of building on the server
+  sync?: 'source' | 'artifact';
+}
+
+export interface HostConfig {
+  // user@server or a Host from ~/.ssh/config; remote.path and remote.sync apply to every node
+  host: string;
+  port?: number;
+  identityFile?: string;
+  // Where Nginx reaches the node's apps; the host name from `host` by default
+  address?: string;
+  weight?: number;
+  // Only receives traffic while every other node is down
+  backup?: boolean;
+}
+
+export interface DockerConfig {
+  // Base image for building and running the apps, node:20-alpine by default
+  nodeImage?: string;
+  nginxImage?: string;
+  // Relative to the project root
+  composeFile?: string;
+  // Defaults to unless-stopped, or on-failure when autoStart is off
+  restart?: 'always' | 'unless-stopped' | 'on-failure' | 'no';
+}
+
+export interface ReleaseConfig {
+  path: string;
+  keep?: number;
+  shared?: string[];
+}
+
+export interface GitConfig {
+  // Branch, tag or SHA to deploy instead of the working tree; --ref sets it
+  ref?: string;
+  // Deploy a working tree with uncommitted changes; --force sets it
+  allowDirty?: boolean;
+}
+
+export interface GitRevision {
+  sha: string;
+  // `git describe` of the commit, e.g. v1.4.0-3-g1a2b3c4, or its short SHA
+  version: string;
+  // As given with --ref; unset when the working tree was deployed
+  ref?: string;
+  author: string;
+  // Subject line
+  message: string;
+  committedAt: string;
+  // Deployed from a working tree with uncommitted changes
+  dirty: boolean;
+}
+
+export type Colour = 'blue' | 'green';
+
+// Blue runs on clientPort/serverPort, green on these ports
+export interface BlueGreenConfig {
+  ports?: Partial<Record<AppRole, number>>;
+  // Seconds the previous colour keeps running after a switch, 600 by default
+  keepWarm?: number;
+}
+
+export interface HealthCheckConfig {
+  enabled?: boolean;
+  path?: string;
+  expectedStatus?: number;
+  bodyMatch?: string;
+  timeout?: number;
+  retries?: number;
+  backoff?: number;
+}
+
+export interface HealthCheckSettings {
+  client?: HealthCheckConfig;
+  server?: HealthCheckConfig;
+  viaNginx?: boolean;
+}
+
+export interface DotenvConfig {
+  // Template listing the required keys, relative to the project root
+  example?: string;
+  schema?: Record<string, EnvVariableSchema>;
+}
+
+export interface EnvVariableSchema {
+  type?: 'string' | 'number' | 'boolean' | 'url' | 'port' | 'email';
+  required?: boolean;
+  pattern?: string;
+}
+
+export interface SecretsConfig {
+  // Key used when no passphrase is given, relative to the project root
+  keyFile?: string;
+  // Where the decrypted values are written for the process manager
+  runtimeFile?: string;
+  // Also write the decrypted values into the deployed .env
+  writeDotenv?: boolean;
+}
+
+export type HookName = 'preBuild' | 'postBuild' | 'preStart' | 'postDeploy' | 'onFailure';
+
+// A shell command, or a JS/TS module whose default export receives the deploy context
+export interface HookConfig {
+  run?: string;
+  module?: string;
+  // Milliseconds
+  timeout?: number;
+  // Relative to the project root
+  cwd?: string;
+}
+
+export type HooksConfig = Partial<Record<HookName, Array<string | HookConfig>>>;
+
+export type MigrationTool = 'prisma' | 'drizzle' | 'knex';
+
+export interface MigrationsConfig {
+  enabled?: boolean;
+  // Overrides the tool detected in the server app
+  tool?: MigrationTool;
+  // Milliseconds
+  timeout?: number;
+}
+
+export type AppRole = 'client' | 'server';
+
+export type Framework = 'nextjs' | 'vite' | 'remix' | 'express' | 'fastify' | 'nestjs';
+
 export interface NeexProject {
   hasClient: boolean;
   hasServer: boolean;
@@ -19,4 +308,7 @@ export interface NeexProject {
   serverPath: string;
   rootPath: string;
   packageManager: string;
+  clientFramework?: Framework;
+  serverFramework?: Framework;
+  migrationTool?: MigrationTool;
 }
\ No newline at end of file
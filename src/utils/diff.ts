@@ -0,0 +1,97 @@
+// src/utils/diff.ts
+
+type DiffOp = { kind: ' ' | '-' | '+'; line: string };
+
+function splitLines(text: string): string[] {
+    if (text === '') return [];
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+    // Longest common subsequence table; generated files are small enough
+    // that the quadratic version is fine.
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const ops: DiffOp[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            ops.push({ kind: ' ', line: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            ops.push({ kind: '-', line: a[i++] });
+        } else {
+            ops.push({ kind: '+', line: b[j++] });
+        }
+    }
+
+    while (i < a.length) ops.push({ kind: '-', line: a[i++] });
+    while (j < b.length) ops.push({ kind: '+', line: b[j++] });
+
+    return ops;
+}
+
+/**
+ * Renders a unified diff between two texts. Returns an empty string when
+ * they are identical.
+ */
+export function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context: number = 3): string {
+    const ops = diffLines(splitLines(oldText), splitLines(newText));
+    if (!ops.some(op => op.kind !== ' ')) return '';
+
+    const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+    let index = 0;
+
+    while (index < ops.length) {
+        // Find the next change and open a hunk around it
+        while (index < ops.length && ops[index].kind === ' ') index++;
+        if (index >= ops.length) break;
+
+        const start = Math.max(0, index - context);
+        let end = index;
+
+        // Extend the hunk while changes are closer than twice the context
+        while (end < ops.length) {
+            if (ops[end].kind !== ' ') {
+                end++;
+                continue;
+            }
+            let next = end;
+            while (next < ops.length && ops[next].kind === ' ') next++;
+            if (next >= ops.length || next - end > context * 2) {
+                end = Math.min(ops.length, end + context);
+                break;
+            }
+            end = next;
+        }
+
+        let oldLine = 1;
+        let newLine = 1;
+        for (let k = 0; k < start; k++) {
+            if (ops[k].kind !== '+') oldLine++;
+            if (ops[k].kind !== '-') newLine++;
+        }
+
+        const hunk = ops.slice(start, end);
+        const oldCount = hunk.filter(op => op.kind !== '+').length;
+        const newCount = hunk.filter(op => op.kind !== '-').length;
+
+        output.push(`@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`);
+        output.push(...hunk.map(op => `${op.kind}${op.line}`));
+
+        index = end;
+    }
+
+    return output.join('\n') + '\n';
+}
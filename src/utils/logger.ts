@@ -4,8 +4,27 @@ import ora from 'ora';
 
 export class Logger {
     private spinner = ora();
+    private quiet = false;
+    private stepListener?: (message: string) => void;
+
+    /**
+     * Quiet mode drops progress output (success, info, step, spinner) but
+     * still prints warnings and errors.
+     */
+    setQuiet(quiet: boolean) {
+        this.quiet = quiet;
+    }
+
+    /**
+     * Calls `listener` with every step, printed or not. The deployment
+     * history uses it to time the steps.
+     */
+    onStep(listener?: (message: string) => void) {
+        this.stepListener = listener;
+    }
 
     success(message: string) {
+        if (this.quiet) return;
         console.log(chalk.green('✓'), message);
     }
 
@@ -18,18 +37,23 @@ export class Logger {
     }
 
     info(message: string) {
+        if (this.quiet) return;
         console.log(chalk.blue('ℹ'), message);
     }
 
     step(message: string) {
+        this.stepListener?.(message);
+        if (this.quiet) return;
         console.log(chalk.cyan('→'), message);
     }
 
     startSpinner(text: string) {
+        if (this.quiet) return;
         this.spinner.start(text);
     }
 
     stopSpinner(success: boolean = true) {
+        if (this.quiet) return;
         if (success) {
             this.spinner.succeed();
         } else {
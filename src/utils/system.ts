@@ -1,50 +1,314 @@
 // src/utils/system.ts
-import { execa } from 'execa';
-import fs from 'fs-extra';
+import crypto from 'crypto';
 import path from 'path';
 import { Logger } from './logger.js';
+import { LocalTransport, Platform, Transport } from './transport.js';
+
+export interface PlannedCommand {
+    command: string;
+    args: string[];
+    cwd?: string;
+    env?: Record<string, string>;
+}
+
+export interface CommandResult {
+    exitCode: number;
+    stdout: string;
+    stderr: string;
+}
+
+export interface PlannedFile {
+    path: string;
+    content: string;
+    // Contents are left out of the plan output
+    sensitive?: boolean;
+}
+
+export interface WrittenFile {
+    path: string;
+    // SHA-256 of the contents, left out for sensitive files
+    sha256?: string;
+}
+
+export interface ShellOptions {
+    cwd?: string;
+    env?: Record<string, string>;
+    // Like env, but masked in the plan
+    secretEnv?: Record<string, string>;
+    // Milliseconds before the command is killed
+    timeout?: number;
+    // Receives each line of stdout and stderr instead of the terminal
+    onLine?: (line: string) => void;
+}
+
+export interface WriteFileOptions {
+    mode?: number;
+    sensitive?: boolean;
+}
 
 export class SystemUtils {
     private logger: Logger;
+    private transport: Transport;
+    private dryRun = false;
+    private plannedCommands: PlannedCommand[] = [];
+    private plannedFiles = new Map<string, PlannedFile>();
+    private planNotes: string[] = [];
+    private writtenFiles = new Map<string, WrittenFile>();
 
-    constructor(logger: Logger) {
+    constructor(logger: Logger, transport: Transport = new LocalTransport()) {
         this.logger = logger;
+        this.transport = transport;
+    }
+
+    /**
+     * True when commands and files go to another machine over SSH rather
+     * than the one deploy-neex runs on.
+     */
+    isRemote(): boolean {
+        return this.transport.remote;
+    }
+
+    getTransport(): Transport {
+        return this.transport;
+    }
+
+    /**
+     * Switches to dry-run mode: commands and file writes are recorded for
+     * the plan instead of being applied. Read-only probes still run.
+     */
+    enableDryRun(): void {
+        this.dryRun = true;
+    }
+
+    isDryRun(): boolean {
+        return this.dryRun;
+    }
+
+    getPlannedCommands(): PlannedCommand[] {
+        return [...this.plannedCommands];
+    }
+
+    getPlannedFiles(): PlannedFile[] {
+        return [...this.plannedFiles.values()];
+    }
+
+    getPlanNotes(): string[] {
+        return [...this.planNotes];
+    }
+
+    /**
+     * Adds a line of context to the plan output, e.g. what a step found
+     * when it probed the system. Ignored outside a dry run.
+     */
+    addPlanNote(note: string): void {
+        if (this.dryRun) {
+            this.planNotes.push(note);
+        }
     }
 
     async checkCommand(command: string): Promise<boolean> {
         try {
-            await execa('which', [command]);
+            await this.transport.run('which', [command]);
             return true;
         } catch {
             return false;
         }
     }
 
+    /**
+     * Absolute path of a command on PATH, or null when it is not installed.
+     */
+    async resolveCommand(command: string): Promise<string | null> {
+        try {
+            const { stdout } = await this.transport.run('which', [command]);
+            return stdout.trim() || null;
+        } catch {
+            return null;
+        }
+    }
+
     async installPackage(packageName: string, global: boolean = true): Promise<void> {
         const args = global ? ['install', '-g', packageName] : ['install', packageName];
-        await execa('npm', args);
+        if (this.dryRun) {
+            this.plannedCommands.push({ command: 'npm', args });
+            return;
+        }
+        await this.transport.run('npm', args);
     }
 
-    async executeCommand(command: string, args: string[], cwd?: string): Promise<void> {
-        await execa(command, args, { cwd, stdio: 'inherit' });
+    async executeCommand(command: string, args: string[], cwd?: string, env?: Record<string, string>): Promise<void> {
+        if (this.dryRun) {
+            this.plannedCommands.push({ command, args, cwd, env });
+            return;
+        }
+        await this.transport.run(command, args, { cwd, env, stdio: 'inherit' });
     }
 
-    async writeFile(filePath: string, content: string): Promise<void> {
-        await fs.ensureDir(path.dirname(filePath));
-        await fs.writeFile(filePath, content);
+    /**
+     * Runs a shell command line, e.g. a user-supplied hook.
+     */
+    async executeShell(commandLine: string, options: ShellOptions = {}): Promise<void> {
+        if (this.dryRun) {
+            const masked = Object.fromEntries(Object.keys(options.secretEnv ?? {}).map(key => [key, '********']));
+            this.plannedCommands.push({ command: 'sh', args: ['-c', commandLine], cwd: options.cwd, env: { ...options.env, ...masked } });
+            return;
+        }
+
+        const subprocess = this.transport.shell(commandLine, {
+            cwd: options.cwd,
+            env: { ...options.env, ...options.secretEnv },
+            timeout: options.timeout,
+            stdio: options.onLine ? 'pipe' : 'inherit',
+            all: Boolean(options.onLine)
+        });
+
+        if (options.onLine) {
+            let buffered = '';
+            subprocess.all?.on('data', (chunk: Buffer) => {
+                const lines = (buffered + chunk.toString()).split('\n');
+                buffered = lines.pop() ?? '';
+                lines.forEach(line => options.onLine!(line));
+            });
+            subprocess.all?.on('end', () => {
+                if (buffered) options.onLine!(buffered);
+            });
+        }
+
+        await subprocess;
     }
 
-    async copyTemplate(templatePath: string, targetPath: string, replacements: Record<string, string>): Promise<void> {
-        let content = await fs.readFile(templatePath, 'utf-8');
+    /**
+     * Runs in-process work that changes the system, such as a hook module.
+     * In a dry run it is only recorded in the plan under `label`.
+     */
+    async runTask(label: string, task: () => Promise<void>): Promise<void> {
+        if (this.dryRun) {
+            this.plannedCommands.push({ command: label, args: [] });
+            return;
+        }
+        await task();
+    }
+
+    /**
+     * Runs a read-only command and returns its output, in a dry run too.
+     * Only use it for commands that change nothing.
+     */
+    async probeCommand(command: string, args: string[], cwd?: string, env?: Record<string, string>): Promise<CommandResult> {
+        const result = await this.transport.run(command, args, { cwd, env, reject: false });
+        return { exitCode: result.exitCode ?? 1, stdout: result.stdout, stderr: result.stderr };
+    }
 
-        for (const [key, value] of Object.entries(replacements)) {
-            content = content.replace(new RegExp(`{{${key}}}`, 'g'), value);
+    /**
+     * Runs a command and returns its output instead of streaming it. A
+     * non-zero exit code is reported in the result rather than thrown.
+     */
+    async captureCommand(command: string, args: string[], cwd?: string): Promise<CommandResult> {
+        if (this.dryRun) {
+            this.plannedCommands.push({ command, args, cwd });
+            return { exitCode: 0, stdout: '', stderr: '' };
         }
+        const result = await this.transport.run(command, args, { cwd, reject: false });
+        return { exitCode: result.exitCode ?? 1, stdout: result.stdout, stderr: result.stderr };
+    }
+
+    async writeFile(filePath: string, content: string, options: WriteFileOptions = {}): Promise<void> {
+        if (this.dryRun) {
+            const resolved = path.resolve(filePath);
+            this.plannedFiles.set(resolved, { path: resolved, content, sensitive: options.sensitive });
+            return;
+        }
+        await this.transport.writeFile(filePath, content, options.mode);
+
+        const resolved = path.resolve(filePath);
+        const sha256 = options.sensitive ? undefined : crypto.createHash('sha256').update(content).digest('hex');
+        this.writtenFiles.set(resolved, { path: resolved, sha256 });
+    }
+
+    /**
+     * Files written outside a dry run since the last call, for the
+     * deployment history.
+     */
+    takeWrittenFiles(): WrittenFile[] {
+        const files = [...this.writtenFiles.values()];
+        this.writtenFiles.clear();
+        return files;
+    }
+
+    /**
+     * Contents of a file on the deploy target, or null when it does not
+     * exist. Reads run in a dry run too.
+     */
+    async readFile(filePath: string): Promise<string | null> {
+        return await this.transport.readFile(filePath);
+    }
+
+    async pathExists(targetPath: string): Promise<boolean> {
+        return await this.transport.pathExists(targetPath);
+    }
 
-        await this.writeFile(targetPath, content);
+    async listDirectories(dirPath: string): Promise<string[]> {
+        return await this.transport.listDirectories(dirPath);
+    }
+
+    async readLink(linkPath: string): Promise<string | null> {
+        return await this.transport.readLink(linkPath);
+    }
+
+    async ensureDir(dirPath: string): Promise<void> {
+        if (this.dryRun) {
+            this.plannedCommands.push({ command: 'mkdir', args: ['-p', dirPath] });
+            return;
+        }
+        await this.transport.ensureDir(dirPath);
+    }
+
+    /**
+     * Copies a file or directory. `exclude` entries match a file name at
+     * any depth or a path relative to source.
+     */
+    async copyPath(source: string, target: string, exclude: string[] = []): Promise<void> {
+        if (this.dryRun) {
+            this.plannedCommands.push({ command: 'cp', args: ['-R', source, target] });
+            return;
+        }
+        await this.transport.copyPath(source, target, exclude);
+    }
+
+    async movePath(source: string, target: string): Promise<void> {
+        if (this.dryRun) {
+            this.plannedCommands.push({ command: 'mv', args: [source, target] });
+            return;
+        }
+        await this.transport.movePath(source, target);
+    }
+
+    async removePath(targetPath: string): Promise<void> {
+        if (this.dryRun) {
+            this.plannedCommands.push({ command: 'rm', args: ['-rf', targetPath] });
+            return;
+        }
+        await this.transport.removePath(targetPath);
+    }
+
+    /**
+     * Points linkPath at target by renaming a fresh link over the old one,
+     * so readers never observe a missing or half-written link.
+     */
+    async switchSymlink(target: string, linkPath: string): Promise<void> {
+        if (this.dryRun) {
+            this.plannedCommands.push({ command: 'ln', args: ['-sfn', target, linkPath] });
+            return;
+        }
+        await this.transport.switchSymlink(target, linkPath);
     }
 
     async isPortAvailable(port: number): Promise<boolean> {
+        if (this.transport.remote) {
+            // Without ss there is nothing to go on; the deploy finds out when the app starts
+            const result = await this.probeCommand('ss', ['-Hltn', `sport = :${port}`]);
+            return result.exitCode !== 0 || result.stdout.trim() === '';
+        }
+
         try {
             const detectPort = await import('detect-port');
             const availablePort = await detectPort.default(port);
@@ -54,10 +318,11 @@ export class SystemUtils {
         }
     }
 
-    getOS(): 'linux' | 'darwin' | 'windows' {
-        const platform = process.platform;
-        if (platform === 'darwin') return 'darwin';
-        if (platform === 'win32') return 'windows';
-        return 'linux';
+    getOS(): Platform {
+        return this.transport.getPlatform();
+    }
+
+    getHomeDir(): string {
+        return this.transport.getHomeDir();
     }
-}
\ No newline at end of file
+}
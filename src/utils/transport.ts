@@ -0,0 +1,342 @@
+// src/utils/transport.ts
+import { ExecaChildProcess, execa } from 'execa';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+export interface RunOptions {
+    cwd?: string;
+    env?: Record<string, string>;
+    // Milliseconds before the command is killed
+    timeout?: number;
+    // 'inherit' streams to this terminal, 'pipe' captures the output
+    stdio?: 'inherit' | 'pipe';
+    // Interleaves stdout and stderr on the child's `all` stream
+    all?: boolean;
+    // Resolve with the exit code instead of throwing on a non-zero one
+    reject?: boolean;
+}
+
+export type Platform = 'linux' | 'darwin' | 'windows';
+
+/**
+ * Where deploy commands run and files are written: this machine, or a
+ * server reached over SSH. SystemUtils goes through it for everything
+ * that touches the deploy target.
+ */
+export interface Transport {
+    // Shown in messages: 'local' or the SSH destination
+    readonly label: string;
+    readonly remote: boolean;
+
+    run(command: string, args: string[], options?: RunOptions): ExecaChildProcess;
+    // Runs a command line through sh
+    shell(commandLine: string, options?: RunOptions): ExecaChildProcess;
+
+    // Null when the file does not exist
+    readFile(filePath: string): Promise<string | null>;
+    writeFile(filePath: string, content: string, mode?: number): Promise<void>;
+    pathExists(targetPath: string): Promise<boolean>;
+    listDirectories(dirPath: string): Promise<string[]>;
+    // Null when the path is not a symlink
+    readLink(linkPath: string): Promise<string | null>;
+    ensureDir(dirPath: string): Promise<void>;
+    // Exclusions match a file name at any depth or a path relative to source
+    copyPath(source: string, target: string, exclude: string[]): Promise<void>;
+    movePath(source: string, target: string): Promise<void>;
+    removePath(targetPath: string): Promise<void>;
+    switchSymlink(target: string, linkPath: string): Promise<void>;
+
+    getHomeDir(): string;
+    getPlatform(): Platform;
+}
+
+export class TransportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TransportError';
+    }
+}
+
+export function shellQuote(value: string): string {
+    return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export class LocalTransport implements Transport {
+    readonly label = 'local';
+    readonly remote = false;
+
+    run(command: string, args: string[], options: RunOptions = {}): ExecaChildProcess {
+        return execa(command, args, toExecaOptions(options));
+    }
+
+    shell(commandLine: string, options: RunOptions = {}): ExecaChildProcess {
+        return execa(commandLine, { ...toExecaOptions(options), shell: true });
+    }
+
+    async readFile(filePath: string): Promise<string | null> {
+        return await fs.pathExists(filePath) ? await fs.readFile(filePath, 'utf-8') : null;
+    }
+
+    async writeFile(filePath: string, content: string, mode?: number): Promise<void> {
+        await fs.ensureDir(path.dirname(filePath));
+        await fs.writeFile(filePath, content, { mode });
+        if (mode !== undefined) {
+            // The mode only applies when the file is created
+            await fs.chmod(filePath, mode);
+        }
+    }
+
+    async pathExists(targetPath: string): Promise<boolean> {
+        return await fs.pathExists(targetPath);
+    }
+
+    async listDirectories(dirPath: string): Promise<string[]> {
+        if (!await fs.pathExists(dirPath)) return [];
+
+        const entries = await fs.readdir(dirPath, { withFileTypes: true });
+        return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    }
+
+    async readLink(linkPath: string): Promise<string | null> {
+        try {
+            return await fs.readlink(linkPath);
+        } catch {
+            return null;
+        }
+    }
+
+    async ensureDir(dirPath: string): Promise<void> {
+        await fs.ensureDir(dirPath);
+    }
+
+    async copyPath(source: string, target: string, exclude: string[]): Promise<void> {
+        await fs.copy(source, target, {
+            dereference: false,
+            filter: (entry) => {
+                const relative = path.relative(source, entry);
+                return !exclude.some(pattern => pattern === relative || pattern === path.basename(entry));
+            }
+        });
+    }
+
+    async movePath(source: string, target: string): Promise<void> {
+        await fs.move(source, target, { overwrite: true });
+    }
+
+    async removePath(targetPath: string): Promise<void> {
+        await fs.remove(targetPath);
+    }
+
+    async switchSymlink(target: string, linkPath: string): Promise<void> {
+        const tempLink = `${linkPath}.tmp-${process.pid}`;
+        await fs.remove(tempLink);
+        await fs.symlink(target, tempLink);
+        await fs.rename(tempLink, linkPath);
+    }
+
+    getHomeDir(): string {
+        return os.homedir();
+    }
+
+    getPlatform(): Platform {
+        if (process.platform === 'darwin') return 'darwin';
+        if (process.platform === 'win32') return 'windows';
+        return 'linux';
+    }
+}
+
+export interface SshOptions {
+    port?: number;
+    identityFile?: string;
+}
+
+// Exit code the read helpers use for "no such file"; ssh itself uses 255
+const MISSING = 3;
+
+/**
+ * Runs everything through the `ssh` client, so keys, agents, known_hosts
+ * and ~/.ssh/config work as they do for the user. All commands share one
+ * master connection, which closes itself a minute after the last one.
+ *
+ * Each command is sent as a small script on stdin (`sh -s`), which keeps
+ * environment values such as decrypted secrets out of process listings.
+ * The script sources ~/.profile first, so PATH changes for Node version
+ * managers belong there rather than in an interactive rc file.
+ */
+export class SshTransport implements Transport {
+    readonly label: string;
+    readonly remote = true;
+    private destination: string;
+    private options: SshOptions;
+    private homeDir = '';
+    private platform: Platform = 'linux';
+
+    constructor(destination: string, options: SshOptions = {}) {
+        this.destination = destination;
+        this.options = options;
+        this.label = destination;
+    }
+
+    /**
+     * Connects and learns the server's platform and home directory. Fails
+     * instead of prompting when the server asks for a password.
+     */
+    async open(): Promise<void> {
+        const result = await this.shell('uname -s && printf "%s\\n" "$HOME"', { stdio: 'pipe', reject: false });
+        if (result.exitCode !== 0) {
+            throw new TransportError(`Cannot connect to ${this.destination}: ${result.stderr.trim() || `ssh exited with code ${result.exitCode}`}`);
+        }
+
+        const [system, home] = result.stdout.trim().split('\n');
+        this.platform = system === 'Darwin' ? 'darwin' : 'linux';
+        this.homeDir = home;
+    }
+
+    /**
+     * The ssh command line without the destination, for tools such as
+     * rsync that open their own connection (`rsync -e`).
+     */
+    getSshArgs(): string[] {
+        const args = [
+            '-o', 'BatchMode=yes',
+            '-o', 'ControlMaster=auto',
+            '-o', 'ControlPath=/tmp/deploy-neex-%C',
+            '-o', 'ControlPersist=60'
+        ];
+        if (this.options.port) args.push('-p', String(this.options.port));
+        if (this.options.identityFile) args.push('-i', this.options.identityFile);
+        return args;
+    }
+
+    getDestination(): string {
+        return this.destination;
+    }
+
+    run(command: string, args: string[], options: RunOptions = {}): ExecaChildProcess {
+        return this.execute([command, ...args].map(shellQuote).join(' '), options);
+    }
+
+    shell(commandLine: string, options: RunOptions = {}): ExecaChildProcess {
+        return this.execute(`sh -c ${shellQuote(commandLine)}`, options);
+    }
+
+    async readFile(filePath: string): Promise<string | null> {
+        const file = shellQuote(filePath);
+        const result = await this.script(`[ -f ${file} ] || exit ${MISSING}\ncat ${file}`);
+        return result.exitCode === MISSING ? null : result.stdout;
+    }
+
+    async writeFile(filePath: string, content: string, mode?: number): Promise<void> {
+        const file = shellQuote(filePath);
+        // The content follows on stdin, so the command goes on the ssh command line
+        const command = [
+            `mkdir -p ${shellQuote(path.posix.dirname(filePath))}`,
+            mode !== undefined ? `(umask 077 && cat > ${file})` : `cat > ${file}`,
+            mode !== undefined ? `chmod ${mode.toString(8)} ${file}` : 'true'
+        ].join(' && ');
+
+        const result = await execa('ssh', [...this.getSshArgs(), this.destination, command], {
+            input: content,
+            reject: false
+        });
+        if (result.exitCode !== 0) {
+            throw new TransportError(`Could not write ${filePath} on ${this.destination}: ${result.stderr.trim()}`);
+        }
+    }
+
+    async pathExists(targetPath: string): Promise<boolean> {
+        const target = shellQuote(targetPath);
+        return (await this.script(`[ -e ${target} ] || [ -L ${target} ]`, false)).exitCode === 0;
+    }
+
+    async listDirectories(dirPath: string): Promise<string[]> {
+        const dir = shellQuote(dirPath);
+        const result = await this.script(`[ -d ${dir} ] || exit 0\nfind ${dir} -mindepth 1 -maxdepth 1 -type d`);
+        return result.stdout.split('\n').filter(Boolean).map(entry => path.posix.basename(entry));
+    }
+
+    async readLink(linkPath: string): Promise<string | null> {
+        const result = await this.script(`readlink ${shellQuote(linkPath)}`, false);
+        return result.exitCode === 0 ? result.stdout.trim() : null;
+    }
+
+    async ensureDir(dirPath: string): Promise<void> {
+        await this.script(`mkdir -p ${shellQuote(dirPath)}`);
+    }
+
+    async copyPath(source: string, target: string, exclude: string[]): Promise<void> {
+        const excludes = exclude.map(pattern => `--exclude=${shellQuote(pattern)}`).join(' ');
+        // A single file is copied as is; directories are merged through tar so exclusions apply
+        await this.script([
+            `if [ -d ${shellQuote(source)} ]; then`,
+            `  mkdir -p ${shellQuote(target)}`,
+            `  (cd ${shellQuote(source)} && tar -cf - ${excludes} .) | (cd ${shellQuote(target)} && tar -xpf -)`,
+            'else',
+            `  cp -P ${shellQuote(source)} ${shellQuote(target)}`,
+            'fi'
+        ].join('\n'));
+    }
+
+    async movePath(source: string, target: string): Promise<void> {
+        await this.script(`rm -rf ${shellQuote(target)} && mv ${shellQuote(source)} ${shellQuote(target)}`);
+    }
+
+    async removePath(targetPath: string): Promise<void> {
+        await this.script(`rm -rf ${shellQuote(targetPath)}`);
+    }
+
+    async switchSymlink(target: string, linkPath: string): Promise<void> {
+        const tempLink = shellQuote(`${linkPath}.tmp-${process.pid}`);
+        // mv -T (GNU) and -h (BSD) replace the link itself instead of moving into its target
+        const replace = this.platform === 'darwin' ? 'mv -fh' : 'mv -fT';
+        await this.script(`rm -f ${tempLink} && ln -s ${shellQuote(target)} ${tempLink} && ${replace} ${tempLink} ${shellQuote(linkPath)}`);
+    }
+
+    getHomeDir(): string {
+        return this.homeDir;
+    }
+
+    getPlatform(): Platform {
+        return this.platform;
+    }
+
+    private execute(commandLine: string, options: RunOptions): ExecaChildProcess {
+        const lines = ['[ -r "$HOME/.profile" ] && . "$HOME/.profile" >/dev/null 2>&1'];
+        if (options.cwd) {
+            lines.push(`cd ${shellQuote(options.cwd)} || exit 1`);
+        }
+        for (const [key, value] of Object.entries(options.env ?? {})) {
+            lines.push(`export ${key}=${shellQuote(value)}`);
+        }
+        lines.push(`exec ${commandLine}`);
+
+        const stdio = options.stdio ?? 'pipe';
+        // cwd and env apply on the server, through the script
+        return execa('ssh', [...this.getSshArgs(), this.destination, 'sh -s'], toExecaOptions({ ...options, cwd: undefined, env: undefined }, {
+            input: lines.join('\n') + '\n',
+            stdio: ['pipe', stdio, stdio]
+        }));
+    }
+
+    // File helpers: output is kept byte for byte and failures are thrown unless `reject` is false
+    private async script(body: string, reject: boolean = true): Promise<{ exitCode: number; stdout: string }> {
+        const result = await execa('ssh', [...this.getSshArgs(), this.destination, body], {
+            reject: false,
+            stripFinalNewline: false
+        });
+        const exitCode = result.exitCode ?? 1;
+
+        if (reject && exitCode !== 0 && exitCode !== MISSING) {
+            throw new TransportError(`Command failed on ${this.destination} (exit code ${exitCode}): ${result.stderr.trim()}`);
+        }
+        return { exitCode, stdout: result.stdout };
+    }
+}
+
+// execa reads an explicit undefined as a value, e.g. `reject: undefined` as false
+function toExecaOptions(options: RunOptions, overrides: Record<string, unknown> = {}) {
+    const { stdio = 'pipe', ...rest } = options;
+    const defined = Object.entries({ stdio, ...rest, ...overrides }).filter(([, value]) => value !== undefined);
+    return Object.fromEntries(defined);
+}
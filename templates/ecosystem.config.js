@@ -0,0 +1,17 @@
+{{#if secretsFile}}
+const fs = require('fs');
+
+// Secrets are read when PM2 loads this file, so they never land in the release directory
+const secrets = Object.fromEntries(fs.readFileSync({{ secretsFile | json }}, 'utf-8')
+  .split('\n')
+  .filter(line => line.includes('='))
+  .map(line => [line.slice(0, line.indexOf('=')), JSON.parse(line.slice(line.indexOf('=') + 1))]));
+
+module.exports = {
+  apps: {{ apps | json }}.map(app => ({ ...app, env: { ...secrets, ...app.env } }))
+};
+{{else}}
+module.exports = {
+  apps: {{ apps | json }}
+};
+{{/if}}
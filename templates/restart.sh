@@ -0,0 +1,4 @@
+#!/bin/bash
+echo "Restarting services..."
+{{ commands.restart }}
+echo "Services restarted!"
@@ -0,0 +1,13 @@
+#!/bin/bash
+echo "=== {{ processManager }} Status ==="
+{{ commands.status }}
+
+echo -e "\n=== {{ processManager }} Logs (last 20 lines) ==="
+{{ commands.logs }}
+
+echo -e "\n=== Port Status ==="
+netstat -tulpn | grep -E ":({{ config.clientPort }}|{{ config.serverPort }}|80|443)" || true
+
+echo -e "\n=== System Resources ==="
+df -h
+free -h 2>/dev/null || top -l 1 | grep -E "^(Processes|PhysMem)"